@@ -1,20 +1,39 @@
 import * as THREE from "three";
 import { OrbitControls } from "three/examples/jsm/Addons.js";
-import { DimensionSystem } from "../src/DimensionSystem";
+import { AreaPlane, AreaSource, DimensionStringMode, DimensionSystem } from "../src/DimensionSystem";
+import { InputController } from "../src/InputController";
 import { CPlaneHelper } from "../src/utils/CPlaneHelper";
+import { getUnitNames } from "../src/utils/units";
+import { getTextBackendNames } from "../src/utils/text";
+import { DimensionStyle, DimensionType, FractionDenominator, LinearAxis, OrdinateAxis } from "../src/types";
 import GUI from "lil-gui";
 
 const app = document.getElementById("app")!;
 const scene = new THREE.Scene();
 scene.background = new THREE.Color(0xf0f0f0);
 
-const camera = new THREE.PerspectiveCamera(
+const perspectiveCamera = new THREE.PerspectiveCamera(
   75,
   window.innerWidth / window.innerHeight,
   0.1,
   1000
 );
-camera.position.set(5, 5, 5);
+perspectiveCamera.position.set(5, 5, 5);
+
+// Plan and elevation views: zoom changes the scale instead of distance
+const orthoCamera = new THREE.OrthographicCamera(-1, 1, 1, -1, 0.1, 1000);
+function updateOrthoFrustum() {
+  const halfHeight = 6;
+  const aspect = window.innerWidth / window.innerHeight;
+  orthoCamera.left = -halfHeight * aspect;
+  orthoCamera.right = halfHeight * aspect;
+  orthoCamera.top = halfHeight;
+  orthoCamera.bottom = -halfHeight;
+  orthoCamera.updateProjectionMatrix();
+}
+updateOrthoFrustum();
+
+let camera: THREE.PerspectiveCamera | THREE.OrthographicCamera = perspectiveCamera;
 
 const renderer = new THREE.WebGLRenderer({ antialias: true });
 renderer.setSize(window.innerWidth, window.innerHeight);
@@ -37,6 +56,7 @@ const boxGeo = new THREE.BoxGeometry(2, 2, 2);
 const boxMat = new THREE.MeshStandardMaterial({ color: 0xcccccc });
 const box = new THREE.Mesh(boxGeo, boxMat);
 box.position.y = 1;
+box.name = "house-base"; // Names let saved anchors find the mesh again after a reload
 houseGroup.add(box);
 
 // Roof
@@ -45,21 +65,68 @@ const roofMat = new THREE.MeshStandardMaterial({ color: 0x885544 });
 const roof = new THREE.Mesh(roofGeo, roofMat);
 roof.position.y = 2.5;
 roof.rotation.y = Math.PI / 4;
+roof.name = "house-roof";
 houseGroup.add(roof);
 
 scene.add(houseGroup);
 
+// Column (for radius / diameter dimensions)
+const columnGeo = new THREE.CylinderGeometry(0.3, 0.3, 2.5, 32);
+const column = new THREE.Mesh(columnGeo, boxMat);
+column.position.set(2.5, 1.25, 0);
+column.name = "column";
+scene.add(column);
+
 // Initialize System
 const dimSystem = new DimensionSystem(scene, camera, renderer);
 
+// Only the model is snappable; the registry is cached and its meshes get a BVH on first use
+dimSystem.snappingManager.addSnappable(houseGroup, column);
+
 // CPlane Helper
 const cplaneHelper = new CPlaneHelper(20, 20);
 scene.add(cplaneHelper);
 cplaneHelper.update(dimSystem.cplane);
+dimSystem.gridSpacing = cplaneHelper.getSpacing();
+
+// Prompts from the system, e.g. "Click next point"
+const promptEl = document.createElement("div");
+promptEl.id = "prompt";
+app.appendChild(promptEl);
+dimSystem.addEventListener("stateChange", (e) => {
+  promptEl.textContent = e.prompt;
+  // Drop a cancelled translate / define preview
+  if (e.state !== "translating_cplane" && !e.state.startsWith("defining_cplane")) cplaneHelper.update(dimSystem.cplane);
+});
+dimSystem.addEventListener("cplaneChange", (e) => cplaneHelper.update(e.cplane));
 
 // GUI Setup
 const gui = new GUI();
 
+const viewFolder = gui.addFolder("View");
+const viewConfig = { view: "perspective" };
+function setView(view: string) {
+  const target = controls.target;
+  if (view === "perspective") {
+    camera = perspectiveCamera;
+  } else {
+    camera = orthoCamera;
+    // Straight down (nudged off the pole for OrbitControls) or straight at the front
+    const offset = view === "plan" ? new THREE.Vector3(0, 50, 0.001) : new THREE.Vector3(0, 0, 50);
+    orthoCamera.position.copy(target).add(offset);
+    orthoCamera.zoom = 1;
+    orthoCamera.updateProjectionMatrix();
+  }
+  controls.object = camera;
+  controls.enableRotate = view === "perspective";
+  controls.update();
+  dimSystem.setCamera(camera);
+}
+viewFolder
+  .add(viewConfig, "view", ["perspective", "plan", "front"])
+  .name("Camera")
+  .onChange(setView);
+
 const snapFolder = gui.addFolder("Snapping");
 const snapConfig = {
   enabled: true,
@@ -67,7 +134,15 @@ const snapConfig = {
   edges: true,
   midpoints: true,
   centroids: true,
+  perpendicular: true,
+  intersections: true,
+  extensions: true,
+  faces: false,
+  tolerance: dimSystem.snappingManager.toleranceMode,
+  pixels: dimSystem.snappingManager.pixelTolerance,
+  aperture: true,
 };
+dimSystem.snappingManager.showAperture = snapConfig.aperture;
 
 snapFolder
   .add(snapConfig, "enabled")
@@ -86,57 +161,195 @@ snapFolder
 snapFolder
   .add(snapConfig, "centroids")
   .onChange((v: boolean) => (dimSystem.snappingManager.snapCentroids = v));
+snapFolder
+  .add(snapConfig, "perpendicular")
+  .onChange((v: boolean) => (dimSystem.snappingManager.snapPerpendicular = v));
+snapFolder
+  .add(snapConfig, "intersections")
+  .onChange((v: boolean) => (dimSystem.snappingManager.snapIntersections = v));
+snapFolder
+  .add(snapConfig, "extensions")
+  .onChange((v: boolean) => (dimSystem.snappingManager.snapExtensions = v));
+snapFolder
+  .add(snapConfig, "faces")
+  .onChange((v: boolean) => (dimSystem.snappingManager.snapFaces = v));
+snapFolder
+  .add(snapConfig, "tolerance", ["pixels", "world"])
+  .onChange((v: "pixels" | "world") => (dimSystem.snappingManager.toleranceMode = v));
+snapFolder
+  .add(snapConfig, "pixels", 2, 40, 1)
+  .onChange((v: number) => (dimSystem.snappingManager.pixelTolerance = v));
+snapFolder
+  .add(snapConfig, "aperture")
+  .onChange((v: boolean) => (dimSystem.snappingManager.showAperture = v));
 
 const styleFolder = gui.addFolder("Dimension Style");
-const styleConfig = dimSystem.dimensionRenderer.style;
+// A copy, so the previous value is still known when a change is recorded for undo
+const styleConfig = { ...dimSystem.dimensionRenderer.style };
+// With a dimension selected, style changes can go to it (and its string) only
+const styleTarget = { selectionOnly: false };
+function applyStyle(style: Partial<DimensionStyle>) {
+  if (styleTarget.selectionOnly && dimSystem.dimensionRenderer.getSelectedId() !== null) {
+    dimSystem.setSelectedStyle(style);
+  } else {
+    dimSystem.setStyle(style);
+  }
+}
+styleFolder.add(styleTarget, "selectionOnly").name("Apply to Selection");
 styleFolder
   .addColor(styleConfig, "color")
-  .onChange(() =>
-    dimSystem.dimensionRenderer.setStyle({ color: styleConfig.color })
+  .onFinishChange(() =>
+    applyStyle({ color: styleConfig.color })
   );
 styleFolder
   .add(styleConfig, "scale", 0.1, 5)
-  .onChange(() =>
-    dimSystem.dimensionRenderer.setStyle({ scale: styleConfig.scale })
+  .onFinishChange(() =>
+    applyStyle({ scale: styleConfig.scale })
   );
+styleFolder
+  .add(styleConfig, "sizeMode", ["world", "screen"])
+  .name("Size")
+  .onFinishChange(() => applyStyle({ sizeMode: styleConfig.sizeMode }));
+styleFolder
+  .add(styleConfig, "screenScale", 10, 100, 1)
+  .name("Screen px / Scale")
+  .onFinishChange(() => applyStyle({ screenScale: styleConfig.screenScale }));
 styleFolder
   .add(styleConfig, "depthTest")
-  .onChange(() =>
-    dimSystem.dimensionRenderer.setStyle({ depthTest: styleConfig.depthTest })
+  .onFinishChange(() =>
+    applyStyle({ depthTest: styleConfig.depthTest })
+  );
+styleFolder
+  .add(styleConfig, "units", getUnitNames())
+  .onFinishChange(() => applyStyle({ units: styleConfig.units }));
+styleFolder
+  .add(styleConfig, "fractionDenominator", [2, 4, 8, 16, 32, 64])
+  .name("Fraction 1/n")
+  .onFinishChange(() =>
+    applyStyle({
+      fractionDenominator: Number(styleConfig.fractionDenominator) as FractionDenominator,
+    })
   );
 styleFolder
-  .add(styleConfig, "units", ["m", "mm", "ft"])
-  .onChange(() =>
-    dimSystem.dimensionRenderer.setStyle({ units: styleConfig.units as any })
+  .add(styleConfig, "suppressLeadingZeros")
+  .name("Suppress Leading 0")
+  .onFinishChange(() =>
+    applyStyle({
+      suppressLeadingZeros: styleConfig.suppressLeadingZeros,
+    })
+  );
+styleFolder
+  .add(styleConfig, "suppressTrailingZeros")
+  .name("Suppress Trailing 0")
+  .onFinishChange(() =>
+    applyStyle({
+      suppressTrailingZeros: styleConfig.suppressTrailingZeros,
+    })
   );
 styleFolder
   .addColor(styleConfig, "textBgColor")
   .name("Text BG")
-  .onChange(() =>
-    dimSystem.dimensionRenderer.setStyle({
+  .onFinishChange(() =>
+    applyStyle({
       textBgColor: styleConfig.textBgColor,
     })
   );
-// styleFolder.add(styleConfig, 'textMode', ['horizontal', 'aligned']).onChange(() => dimSystem.dimensionRenderer.setStyle({ textMode: styleConfig.textMode as any }));
+styleFolder
+  .add(styleConfig, "textBackend", getTextBackendNames())
+  .name("Text")
+  .onFinishChange(() => applyStyle({ textBackend: styleConfig.textBackend }));
+styleFolder
+  .add(styleConfig, "fontFamily", ["Arial", "Helvetica", "Verdana", "Georgia", "Courier New", "sans-serif", "serif", "monospace"])
+  .name("Font")
+  .onFinishChange(() => applyStyle({ fontFamily: styleConfig.fontFamily }));
+styleFolder
+  .add(styleConfig, "fontWeight", ["normal", "bold"])
+  .name("Weight")
+  .onFinishChange(() => applyStyle({ fontWeight: styleConfig.fontWeight }));
+styleFolder
+  .add(styleConfig, "showPerimeter")
+  .name("Area Perimeter")
+  .onFinishChange(() =>
+    applyStyle({
+      showPerimeter: styleConfig.showPerimeter,
+    })
+  );
+styleFolder
+  .add(styleConfig, "textMode", ["horizontal", "aligned"])
+  .name("Text Mode")
+  .onFinishChange(() => applyStyle({ textMode: styleConfig.textMode }));
 
 const modeFolder = gui.addFolder("Mode");
-const modeConfig = { mode: "linear" };
+const modeConfig = {
+  mode: dimSystem.mode,
+  ortho: dimSystem.orthoLock,
+  polar: dimSystem.polarTracking,
+  polarIncrement: dimSystem.polarIncrement,
+  linearAxis: dimSystem.linearAxis,
+  ordinateAxis: dimSystem.ordinateAxis,
+  stringMode: dimSystem.stringMode,
+  areaSource: dimSystem.areaSource,
+  areaPlane: dimSystem.areaPlane,
+};
+modeFolder
+  .add(modeConfig, "mode", ["linear", "aligned", "angle", "leader", "radius", "diameter", "ordinate", "area"])
+  .onChange((v: string) => dimSystem.setMode(v as DimensionType));
+modeFolder
+  .add(modeConfig, "ortho")
+  .name("Ortho (F8)")
+  .onChange((v: boolean) => dimSystem.setOrthoLock(v));
 modeFolder
-  .add(modeConfig, "mode", ["linear", "angle", "leader"])
+  .add(modeConfig, "polar")
+  .name("Polar (F10)")
+  .onChange((v: boolean) => dimSystem.setPolarTracking(v));
+modeFolder
+  .add(modeConfig, "polarIncrement", [5, 10, 15, 22.5, 30, 45, 90])
+  .name("Polar Angle")
+  .onChange((v: number) => (dimSystem.polarIncrement = Number(v)));
+// Keyboard shortcuts change these too
+dimSystem.addEventListener("modeChange", (e) => {
+  modeConfig.mode = e.mode;
+  modeFolder.controllersRecursive().forEach((c) => c.updateDisplay());
+});
+dimSystem.addEventListener("stateChange", () => {
+  modeConfig.ortho = dimSystem.orthoLock;
+  modeConfig.polar = dimSystem.polarTracking;
+  modeFolder.controllersRecursive().forEach((c) => c.updateDisplay());
+});
+modeFolder
+  .add(modeConfig, "linearAxis", ["auto", "x", "y", "z", "cplane-x", "cplane-y"])
+  .name("Linear Axis")
+  .onChange((v: string) => (dimSystem.linearAxis = v as "auto" | LinearAxis));
+modeFolder
+  .add(modeConfig, "ordinateAxis", ["auto", "x", "y"])
+  .name("Ordinate Axis")
+  .onChange((v: string) => (dimSystem.ordinateAxis = v as "auto" | OrdinateAxis));
+modeFolder
+  .add(modeConfig, "areaSource", ["polygon", "face"])
+  .name("Area From")
+  .onChange((v: string) => {
+    dimSystem.cancel();
+    dimSystem.areaSource = v as AreaSource;
+  });
+modeFolder
+  .add(modeConfig, "areaPlane", ["best-fit", "cplane"])
+  .name("Area Plane")
+  .onChange((v: string) => (dimSystem.areaPlane = v as AreaPlane));
+modeFolder
+  .add(modeConfig, "stringMode", ["single", "continuous", "baseline"])
+  .name("String")
   .onChange((v: string) => {
-    dimSystem.mode = v as any;
-    dimSystem.cancel(); // Reset state on mode change
+    dimSystem.finish();
+    dimSystem.stringMode = v as DimensionStringMode;
   });
 
 const cplaneFolder = gui.addFolder("CPlane");
 const cplaneActions = {
   setWorld: () => {
     dimSystem.setCPlaneToWorld();
-    cplaneHelper.update(dimSystem.cplane);
   },
   setView: () => {
     dimSystem.setCPlaneToView();
-    cplaneHelper.update(dimSystem.cplane);
   },
   define3Pt: () => {
     dimSystem.startDefineCPlane();
@@ -154,83 +367,112 @@ cplaneFolder.add(cplaneActions, "define3Pt").name("Define 3-Point");
 cplaneFolder.add(cplaneActions, "defineFace").name("Set to Face");
 cplaneFolder.add(cplaneActions, "translate").name("Translate");
 
-const actionFolder = gui.addFolder("Actions");
-const actions = {
-  clear: () => dimSystem.dimensionRenderer.clear(),
-  cancel: () => dimSystem.cancel(),
+// Named CPlanes: save the active one under the typed name, pick one to restore it
+const libraryConfig = {
+  name: "CPlane",
+  saved: "",
+  save: () => {
+    const name = libraryConfig.name.trim();
+    if (name) dimSystem.saveCPlane(name);
+  },
+  rename: () => {
+    const name = libraryConfig.name.trim();
+    if (!libraryConfig.saved || !name) return;
+    if (dimSystem.renameCPlane(libraryConfig.saved, name)) {
+      libraryConfig.saved = name;
+      savedController.updateDisplay();
+    }
+  },
+  remove: () => {
+    if (libraryConfig.saved) dimSystem.deleteCPlane(libraryConfig.saved);
+  },
 };
-actionFolder.add(actions, "clear");
-actionFolder.add(actions, "cancel");
+cplaneFolder.add(libraryConfig, "name").name("Name");
+cplaneFolder.add(libraryConfig, "save").name("Save As Name");
+const savedController = cplaneFolder
+  .add(libraryConfig, "saved", [])
+  .name("Saved")
+  .onChange((name: string) => dimSystem.restoreCPlane(name));
+cplaneFolder.add(libraryConfig, "rename").name("Rename to Name");
+cplaneFolder.add(libraryConfig, "remove").name("Delete");
+dimSystem.addEventListener("cplaneLibraryChange", (e) => {
+  if (!e.names.includes(libraryConfig.saved)) libraryConfig.saved = e.names[e.names.length - 1] ?? "";
+  savedController.options(e.names).updateDisplay();
+});
 
-// Raycast / Mouse Move
-const mouse = new THREE.Vector2();
-
-// Helper to get snappable objects, excluding dimensions
-function getSnappableObjects() {
-  const dimensionsGroup = dimSystem.dimensionRenderer.getDimensionsGroup();
-  const previewGroup = dimSystem.dimensionRenderer.getPreviewGroup();
-
-  const objects: THREE.Object3D[] = [];
-  scene.traverse((child) => {
-    // Filter out dimensions and preview, and visual helpers
-    if (
-      child === dimensionsGroup ||
-      child === previewGroup ||
-      child === cplaneHelper
-    )
-      return;
-    if (
-      child.parent === dimensionsGroup ||
-      child.parent === previewGroup ||
-      child.parent === cplaneHelper
-    )
-      return;
-
-    // Add Meshes
-    if ((child as THREE.Mesh).isMesh) {
-      // Ignore the snap marker itself if it gets into the tree
-      const marker = dimSystem.snappingManager.getSnapMarker();
-      if (marker && child === marker) return;
-
-      objects.push(child);
-    }
+const gridConfig = { snap: dimSystem.gridSnap, divisions: 20 };
+cplaneFolder
+  .add(gridConfig, "snap")
+  .name("Grid Snap (F9)")
+  .onChange((v: boolean) => dimSystem.setGridSnap(v));
+cplaneFolder
+  .add(gridConfig, "divisions", [10, 20, 40, 80, 160])
+  .name("Grid Divisions")
+  .onChange((v: number) => {
+    cplaneHelper.setGrid(20, Number(v));
+    dimSystem.gridSpacing = cplaneHelper.getSpacing();
   });
-  return objects;
-}
-
-window.addEventListener("mousemove", (event) => {
-  // Calculate mouse position in normalized device coordinates
-  const rect = renderer.domElement.getBoundingClientRect();
-  mouse.x = ((event.clientX - rect.left) / rect.width) * 2 - 1;
-  mouse.y = -((event.clientY - rect.top) / rect.height) * 2 + 1;
-
-  dimSystem.onMouseMove(mouse, getSnappableObjects(), cplaneHelper);
+dimSystem.addEventListener("stateChange", () => {
+  gridConfig.snap = dimSystem.gridSnap;
+  cplaneFolder.controllersRecursive().forEach((c) => c.updateDisplay());
 });
 
-window.addEventListener("click", (event) => {
-  if (event.target !== renderer.domElement) return; // Ignore clicks on UI
+const actionFolder = gui.addFolder("Actions");
+const STORAGE_KEY = "three-arch-dims-demo";
 
-  dimSystem.onClick(mouse, getSnappableObjects());
-  // Lazy update in case state changed
-  cplaneHelper.update(dimSystem.cplane);
+// Keep the style controls in sync with undo/redo and loading
+dimSystem.dimensionRenderer.addEventListener("styleChange", (e) => {
+  Object.assign(styleConfig, e.style);
+  styleFolder.controllersRecursive().forEach((c) => c.updateDisplay());
 });
 
-// Escape to cancel
-window.addEventListener("keydown", (e) => {
-  if (e.key === "Escape") {
-    dimSystem.cancel();
-  }
-});
+const actions = {
+  undo: () => {
+    dimSystem.undo();
+  },
+  redo: () => {
+    dimSystem.redo();
+  },
+  select: () => dimSystem.startSelect(),
+  deleteSelected: () => dimSystem.deleteSelected(),
+  editText: () => dimSystem.editSelectedText(),
+  save: () => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(dimSystem));
+  },
+  load: () => {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    if (!saved) return;
+    const result = dimSystem.fromJSON(saved);
+    if (result.errors.length > 0) console.warn(result.errors);
+  },
+  clear: () => dimSystem.clear(),
+  cancel: () => dimSystem.cancel(),
+};
+actionFolder.add(actions, "undo");
+actionFolder.add(actions, "redo");
+actionFolder.add(actions, "save");
+actionFolder.add(actions, "load");
+actionFolder.add(actions, "select").name("Select / Edit");
+actionFolder.add(actions, "deleteSelected").name("Delete Selected");
+actionFolder.add(actions, "editText").name("Edit Leader Text (F2)");
+actionFolder.add(actions, "clear");
+actionFolder.add(actions, "cancel");
+
+// Pointer and keyboard input: clicks place points, drags orbit the camera
+const input = new InputController(dimSystem, { cplaneHelper });
+input.attach(renderer.domElement);
 
 window.addEventListener("resize", () => {
-  camera.aspect = window.innerWidth / window.innerHeight;
-  camera.updateProjectionMatrix();
+  perspectiveCamera.aspect = window.innerWidth / window.innerHeight;
+  perspectiveCamera.updateProjectionMatrix();
+  updateOrthoFrustum();
   renderer.setSize(window.innerWidth, window.innerHeight);
 });
 
 function animate() {
   requestAnimationFrame(animate);
   controls.update();
+  dimSystem.update();
   renderer.render(scene, camera);
 }
 
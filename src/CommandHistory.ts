@@ -0,0 +1,81 @@
+export interface Command {
+  label: string;
+  execute(): void;
+  undo(): void;
+}
+
+export class CommandHistory {
+  private undoStack: Command[] = [];
+  private redoStack: Command[] = [];
+  private maxDepth: number;
+
+  constructor(maxDepth: number = 100) {
+    this.maxDepth = Math.max(1, maxDepth);
+  }
+
+  public getMaxDepth() {
+    return this.maxDepth;
+  }
+
+  public setMaxDepth(depth: number) {
+    this.maxDepth = Math.max(1, depth);
+    this.trim();
+  }
+
+  // Run a command and record it
+  public execute(command: Command) {
+    command.execute();
+    this.push(command);
+  }
+
+  // Record a command whose effect has already been applied
+  public push(command: Command) {
+    this.undoStack.push(command);
+    this.redoStack = []; // A new action invalidates the redo branch
+    this.trim();
+  }
+
+  public undo(): boolean {
+    const command = this.undoStack.pop();
+    if (!command) return false;
+    command.undo();
+    this.redoStack.push(command);
+    return true;
+  }
+
+  public redo(): boolean {
+    const command = this.redoStack.pop();
+    if (!command) return false;
+    command.execute();
+    this.undoStack.push(command);
+    return true;
+  }
+
+  public canUndo(): boolean {
+    return this.undoStack.length > 0;
+  }
+
+  public canRedo(): boolean {
+    return this.redoStack.length > 0;
+  }
+
+  // Label of the next command to undo/redo, handy for menu items
+  public getUndoLabel(): string | null {
+    return this.undoStack.length > 0 ? this.undoStack[this.undoStack.length - 1].label : null;
+  }
+
+  public getRedoLabel(): string | null {
+    return this.redoStack.length > 0 ? this.redoStack[this.redoStack.length - 1].label : null;
+  }
+
+  public clear() {
+    this.undoStack = [];
+    this.redoStack = [];
+  }
+
+  private trim() {
+    if (this.undoStack.length > this.maxDepth) {
+      this.undoStack.splice(0, this.undoStack.length - this.maxDepth);
+    }
+  }
+}
@@ -1,31 +1,97 @@
 import * as THREE from 'three';
-import { createTextSprite } from './utils/text';
-import { DimensionStyle, DimensionData, DimensionType } from './types';
+import { getTextBackend } from './utils/text';
+import { createCPlane, evaluateAssociation, getCPlaneAxes } from './utils/geometry';
+import { formatLength, formatAngle, formatArea, hasUnitFormatter } from './utils/units';
+import { debugWarn } from './utils/log';
+import { getBoundaryEdges, getTrianglesArea, triangulatePolygon, bestFitPlane } from './utils/area';
+import { DimensionStyle, DimensionData, DimensionType, DimensionExtras, GripKey, AnchorKey, DimensionAnchor, DimensionAnchors, CPlane, DimensionRendererEventMap } from './types';
 
-export class DimensionRenderer {
+const GRIP_KEYS: GripKey[] = ['start', 'end', 'offsetPoint', 'angleP2'];
+const ANCHOR_KEYS: AnchorKey[] = ['start', 'end', 'angleP2'];
+
+// What an anchored object looked like when its anchors were last evaluated
+interface AnchorSource {
+  inScene: boolean;
+  position: THREE.BufferAttribute | THREE.InterleavedBufferAttribute | undefined;
+  positionVersion: number;
+  instanceVersion: number;
+  instanceCount: number;
+  matrixWorld: THREE.Matrix4;
+}
+
+// A line vertex `length` style units (at most `maxLength` world units) from `anchor` along `direction`
+interface SizedVertex {
+  index: number;
+  anchor: THREE.Vector3;
+  direction: THREE.Vector3;
+  length: number;
+  maxLength?: number;
+}
+
+export class DimensionRenderer extends THREE.EventDispatcher<DimensionRendererEventMap> {
   private scene: THREE.Scene;
   private dimensionsGroup: THREE.Group;
   private previewGroup: THREE.Group;
+  private gripsGroup: THREE.Group;
+  private trackingLine: THREE.Line;
+  private readout: THREE.Sprite | null = null; // Typed distance / angle next to the cursor
+  private labelCamera: THREE.Camera | null = null; // Last camera given to updateLabels
+  private gripGeometry = new THREE.BoxGeometry(0.1, 0.1, 0.1); // Shared by all grips, unit size
+  // Anchored objects as they were at the last updateAssociations, and anchors evaluated since added
+  private anchorSources = new WeakMap<THREE.Object3D, AnchorSource>();
+  private evaluatedAnchors = new WeakSet<DimensionAnchor>();
+  // Last view given to updateScreenSizes
+  private sizeCamera: THREE.Camera | null = null;
+  private viewportHeight = 0;
+  private sizeView = new THREE.Matrix4();
+  private sizeProjection = new THREE.Matrix4();
   private dimensionData: DimensionData[] = [];
   private nextId = 0;
+  private nextGroupId = 0;
+  private selectedId: number | null = null;
+  private activeGrip: GripKey | null = null;
   
   public style: DimensionStyle = {
     color: '#000000',
     fontSize: 1,
     scale: 1,
+    sizeMode: 'world',
+    screenScale: 40,
     depthTest: false,
     offset: 0.5,
     units: 'm',
+    precision: null,
+    anglePrecision: 1,
+    fractionDenominator: 16,
+    suppressLeadingZeros: false,
+    suppressTrailingZeros: false,
+    modelUnitScale: 1,
     textBgColor: '#ffffff', // Default white bg
-    textMode: 'horizontal'
+    textMode: 'horizontal',
+    fontFamily: 'Arial',
+    fontWeight: 'bold',
+    textBackend: 'sdf',
+    showPerimeter: false
   };
 
   constructor(scene: THREE.Scene) {
+    super();
     this.scene = scene;
     this.dimensionsGroup = new THREE.Group();
     this.previewGroup = new THREE.Group();
+    this.gripsGroup = new THREE.Group();
     this.scene.add(this.dimensionsGroup);
     this.scene.add(this.previewGroup);
+    this.scene.add(this.gripsGroup);
+
+    // Dashed line showing an ortho / polar constraint while drawing
+    this.trackingLine = new THREE.Line(
+      new THREE.BufferGeometry().setFromPoints([new THREE.Vector3(), new THREE.Vector3()]),
+      new THREE.LineDashedMaterial({ color: 0x0088ff, dashSize: 0.1, gapSize: 0.06, depthTest: false, transparent: true })
+    );
+    this.trackingLine.renderOrder = 998;
+    this.trackingLine.visible = false;
+    this.scene.add(this.trackingLine);
   }
 
   public getDimensionsGroup() {
@@ -36,12 +102,116 @@ export class DimensionRenderer {
     return this.previewGroup;
   }
 
+  public getGripsGroup() {
+    return this.gripsGroup;
+  }
+
+  public getTrackingLine() {
+    return this.trackingLine;
+  }
+
+  // Show the tracking line from start to end, or hide it with null
+  public setTrackingLine(start: THREE.Vector3 | null, end?: THREE.Vector3) {
+    if (!start || !end) {
+      this.trackingLine.visible = false;
+      return;
+    }
+    const positions = this.trackingLine.geometry.attributes.position;
+    positions.setXYZ(0, start.x, start.y, start.z);
+    positions.setXYZ(1, end.x, end.y, end.z);
+    positions.needsUpdate = true;
+    this.trackingLine.geometry.computeBoundingSphere();
+    this.trackingLine.computeLineDistances();
+
+    const material = this.trackingLine.material as THREE.LineDashedMaterial;
+    const unit = this.getUnitSize(this.style, start);
+    material.dashSize = 0.1 * unit;
+    material.gapSize = 0.06 * unit;
+    this.trackingLine.visible = true;
+  }
+
+  public getReadout() {
+    return this.readout;
+  }
+
+  // Show typed input just above and right of `position`, or hide it with null
+  public setReadout(text: string | null, position?: THREE.Vector3) {
+    if (this.readout && (!text || !position || this.readout.userData.text !== text)) {
+      this.scene.remove(this.readout);
+      this.disposeLabels(this.readout);
+      this.readout = null;
+    }
+    if (!text || !position) return;
+
+    const style = { ...this.style, color: '#0088ff', scale: this.style.scale * 0.8 };
+    if (!this.readout) {
+      this.readout = this.createLabel(text, style);
+      this.readout.center.set(0, 0);
+      this.readout.renderOrder = 999;
+      this.readout.userData.text = text;
+      this.scene.add(this.readout);
+    }
+    this.placeSized(this.readout, style, position);
+  }
+
+  // Turns 'aligned' labels so they read left to right (or bottom to top) and aren't mirrored
+  // as seen from `camera`. Call it every frame; DimensionSystem.update does.
+  public updateLabels(camera: THREE.Camera) {
+    this.labelCamera = camera;
+    for (const group of [this.dimensionsGroup, this.previewGroup]) {
+      group.traverse(child => {
+        if (child.userData.alignment) this.orientLabel(child, camera);
+      });
+    }
+  }
+
+  // Resizes text, arrows and ticks of sizeMode 'screen' for `camera` and a viewport `viewportHeight`
+  // CSS pixels tall. Does nothing while the view is unchanged; DimensionSystem.update calls it.
+  public updateScreenSizes(camera: THREE.Camera, viewportHeight: number) {
+    camera.updateMatrixWorld();
+    if (
+      camera === this.sizeCamera &&
+      viewportHeight === this.viewportHeight &&
+      this.sizeView.equals(camera.matrixWorld) &&
+      this.sizeProjection.equals(camera.projectionMatrix)
+    ) return;
+
+    this.sizeCamera = camera;
+    this.viewportHeight = viewportHeight;
+    this.sizeView.copy(camera.matrixWorld);
+    this.sizeProjection.copy(camera.projectionMatrix);
+
+    for (const group of [this.dimensionsGroup, this.previewGroup, this.gripsGroup]) {
+      group.traverse(child => {
+        if (child.userData.screenSize) this.applyScreenSize(child);
+        if (child.userData.screenVertices) this.applySizedVertices(child as THREE.Line);
+      });
+    }
+    if (this.readout?.userData.screenSize) this.applyScreenSize(this.readout);
+  }
+
+  public getDimensions(): readonly DimensionData[] {
+    return this.dimensionData;
+  }
+
+  public getDimension(id: number): DimensionData | undefined {
+    return this.dimensionData.find(d => d.id === id);
+  }
+
+  // Unknown unit formats are left out (see registerUnitFormatter)
   public setStyle(style: Partial<DimensionStyle>) {
+    if (style.units !== undefined && !hasUnitFormatter(style.units)) {
+      debugWarn(`Unknown unit format '${style.units}', keeping '${this.style.units}'`);
+      style = { ...style };
+      delete style.units;
+    }
     this.style = { ...this.style, ...style };
     this.rebuildAll();
+    this.dispatchEvent({ type: 'styleChange', style: this.style });
   }
 
-  public createDimension(type: DimensionType, start: THREE.Vector3, end: THREE.Vector3, offsetPoint: THREE.Vector3, angleP2?: THREE.Vector3, text?: string) {
+  public createDimension(type: DimensionType, start: THREE.Vector3, end: THREE.Vector3, offsetPoint: THREE.Vector3, angleP2?: THREE.Vector3, text?: string, extras?: DimensionExtras): DimensionData {
+    const anchors = extras?.anchors;
     const data: DimensionData = {
       id: this.nextId++,
       type,
@@ -49,16 +219,320 @@ export class DimensionRenderer {
       end: end.clone(),
       offsetPoint: offsetPoint.clone(),
       angleP2: angleP2 ? angleP2.clone() : undefined,
-      text
+      text,
+      anchors: anchors && Object.keys(anchors).length > 0 ? { ...anchors } : undefined,
+      axis: extras?.axis ? extras.axis.clone().normalize() : undefined,
+      normal: extras?.normal ? extras.normal.clone().normalize() : undefined,
+      datum: extras?.datum ? createCPlane(extras.datum.origin, extras.datum.normal, extras.datum.xAxis) : undefined,
+      ordinateAxis: extras?.ordinateAxis,
+      points: extras?.points ? extras.points.map(p => p.clone()) : undefined,
+      triangles: extras?.triangles ? extras.triangles.map(p => p.clone()) : undefined,
+      groupId: extras?.groupId,
+      style: extras?.style ? { ...extras.style } : undefined
     };
+    if (data.groupId !== undefined) this.nextGroupId = Math.max(this.nextGroupId, data.groupId + 1);
     this.dimensionData.push(data);
     this.rebuildAll();
+    this.dispatchEvent({ type: 'dimensionCreated', dimension: data });
+    return data;
+  }
+
+  // --- Groups (chain / baseline strings) ---
+
+  public createGroupId(): number {
+    return this.nextGroupId++;
+  }
+
+  // The dimension plus every other member of its group
+  public getGroupMembers(id: number): DimensionData[] {
+    const data = this.getDimension(id);
+    if (!data) return [];
+    if (data.groupId === undefined) return [data];
+    return this.dimensionData.filter(d => d.groupId === data.groupId);
+  }
+
+  // Replace the style overrides of a dimension and the rest of its group
+  public setDimensionStyle(id: number, style: Partial<DimensionStyle> | undefined) {
+    const members = this.getGroupMembers(id);
+    for (const member of members) {
+      member.style = style && Object.keys(style).length > 0 ? { ...style } : undefined;
+    }
+    this.rebuild(members);
+    members.forEach(member => this.dispatchEvent({ type: 'dimensionUpdated', dimension: member }));
   }
 
-  public updatePreview(type: DimensionType, start: THREE.Vector3, end: THREE.Vector3, offsetPoint: THREE.Vector3, angleP2?: THREE.Vector3, text?: string) {
-    this.previewGroup.clear();
+  public setDimensionText(id: number, text: string | undefined) {
+    const data = this.getDimension(id);
+    if (!data) return;
+    data.text = text;
+    this.rebuild([data]);
+    this.dispatchEvent({ type: 'dimensionUpdated', dimension: data });
+  }
+
+  // Re-insert a previously removed dimension, keeping its id (used by undo/redo)
+  public insertDimension(data: DimensionData, index: number = this.dimensionData.length) {
+    if (this.getDimension(data.id)) return;
+    this.dimensionData.splice(Math.min(index, this.dimensionData.length), 0, data);
+    this.nextId = Math.max(this.nextId, data.id + 1);
+    if (data.groupId !== undefined) this.nextGroupId = Math.max(this.nextGroupId, data.groupId + 1);
+    this.rebuildAll();
+    this.dispatchEvent({ type: 'dimensionCreated', dimension: data });
+  }
+
+  // Replace the whole set, e.g. when loading a saved project.
+  // Ids are kept where possible; missing or duplicate ids get fresh ones.
+  public loadDimensions(dimensions: DimensionData[]) {
+    this.clear();
+    this.nextId = 0;
+    this.nextGroupId = 0;
+    for (const data of dimensions) {
+      if (Number.isInteger(data.id) && data.id >= 0) this.nextId = Math.max(this.nextId, data.id + 1);
+      if (data.groupId !== undefined) this.nextGroupId = Math.max(this.nextGroupId, data.groupId + 1);
+    }
+
+    const used = new Set<number>();
+    for (const data of dimensions) {
+      if (!Number.isInteger(data.id) || data.id < 0 || used.has(data.id)) data.id = this.nextId++;
+      used.add(data.id);
+      this.dimensionData.push(data);
+    }
+    this.rebuildAll();
+    dimensions.forEach(data => this.dispatchEvent({ type: 'dimensionCreated', dimension: data }));
+  }
+
+  // Ordinate dimensions measured in CPlane `from` are re-measured in `to`, when the active
+  // CPlane is moved (not when another plane is made active). Matched by value, since datums are copies.
+  public moveDatum(from: CPlane, to: CPlane) {
+    const changed: DimensionData[] = [];
+    for (const data of this.dimensionData) {
+      const datum = data.datum;
+      if (!datum || datum.origin.distanceTo(from.origin) > 1e-6 || datum.normal.dot(from.normal) < 1 - 1e-9 || datum.xAxis.dot(from.xAxis) < 1 - 1e-9) continue;
+      datum.origin.copy(to.origin);
+      datum.normal.copy(to.normal);
+      datum.xAxis.copy(to.xAxis);
+      changed.push(data);
+    }
+    if (changed.length === 0) return;
+    this.rebuild(changed);
+    changed.forEach(data => this.dispatchEvent({ type: 'dimensionUpdated', dimension: data }));
+  }
+
+  // Move one or more control points of an existing dimension.
+  // `anchors` replaces the association of a point; null makes it a free point.
+  // With `notify` false no dimensionUpdated is sent, e.g. for the steps of a drag before the drop.
+  public updateDimension(
+    id: number,
+    changes: Partial<Record<GripKey, THREE.Vector3>>,
+    anchors?: Partial<Record<AnchorKey, DimensionAnchor | null>>,
+    notify: boolean = true
+  ) {
+    const data = this.getDimension(id);
+    if (!data) return;
+
+    if (anchors) {
+      const next: DimensionAnchors = { ...data.anchors };
+      for (const key of ANCHOR_KEYS) {
+        if (!(key in anchors)) continue;
+        const anchor = anchors[key];
+        if (anchor) next[key] = anchor;
+        else delete next[key];
+      }
+      data.anchors = Object.keys(next).length > 0 ? next : undefined;
+    }
+
+    for (const key of GRIP_KEYS) {
+      const point = changes[key];
+      if (!point) continue;
+      if (key === 'angleP2') {
+        data.angleP2 = point.clone();
+      } else {
+        data[key].copy(point);
+      }
+    }
+    this.rebuild([data]);
+    if (notify) this.dispatchEvent({ type: 'dimensionUpdated', dimension: data });
+  }
+
+  // Re-evaluate associated points against their source geometry. Only anchors on objects that
+  // moved or changed since the last call (and new anchors) are evaluated, and only the dimensions
+  // that changed are rebuilt. Free points and the offset point move with the anchored points as one
+  // rigid body, so the dimension keeps its layout. Returns true if anything was rebuilt.
+  public updateAssociations(): boolean {
+    const changed = new Set<DimensionData>();
+    const checked = new Map<THREE.Object3D, boolean>(); // Object -> changed, once per call
+    const point = new THREE.Vector3();
+
+    for (const data of this.dimensionData) {
+      if (!data.anchors) continue;
+
+      const pairs: [THREE.Vector3, THREE.Vector3][] = []; // Valid anchored points: before, after
+      let moved = false;
+
+      for (const key of ANCHOR_KEYS) {
+        const anchor = data.anchors[key];
+        const current = data[key];
+        if (!anchor || !current) continue;
+
+        const object = anchor.association.object;
+        let objectChanged = checked.get(object);
+        if (objectChanged === undefined) {
+          objectChanged = this.hasAnchorSourceChanged(object);
+          checked.set(object, objectChanged);
+        }
+        if (!objectChanged && this.evaluatedAnchors.has(anchor)) {
+          if (!anchor.orphaned) pairs.push([current.clone(), current]);
+          continue;
+        }
+        this.evaluatedAnchors.add(anchor);
+
+        const valid = evaluateAssociation(anchor.association, point);
+        if (valid !== !anchor.orphaned) {
+          anchor.orphaned = !valid;
+          changed.add(data);
+        }
+        if (!valid) continue;
+
+        const before = current.clone();
+        pairs.push([before, current]);
+        if (point.distanceToSquared(current) < 1e-12) continue;
+        current.copy(point);
+        moved = true;
+        changed.add(data);
+      }
+
+      if (moved) this.followAnchors(data, pairs);
+    }
+
+    if (changed.size === 0) return false;
+    this.rebuild(changed);
+    changed.forEach(data => this.dispatchEvent({ type: 'dimensionUpdated', dimension: data }));
+    return true;
+  }
+
+  // Whether an anchored object moved, changed its vertices or left the scene since the last check
+  private hasAnchorSourceChanged(object: THREE.Object3D): boolean {
+    let root = object;
+    while (root.parent) root = root.parent;
+    const inScene = (root as THREE.Scene).isScene === true;
+
+    object.updateWorldMatrix(true, false);
+    const position = ((object as THREE.Mesh).geometry as THREE.BufferGeometry | undefined)?.getAttribute('position');
+    const positionVersion = !position ? -1
+      : (position as THREE.InterleavedBufferAttribute).isInterleavedBufferAttribute
+        ? (position as THREE.InterleavedBufferAttribute).data.version
+        : (position as THREE.BufferAttribute).version;
+    const instanced = object as THREE.InstancedMesh;
+    const instanceVersion = instanced.isInstancedMesh ? instanced.instanceMatrix.version : -1;
+    const instanceCount = instanced.isInstancedMesh ? instanced.count : -1;
+
+    const last = this.anchorSources.get(object);
+    if (
+      last &&
+      last.inScene === inScene &&
+      last.position === position &&
+      last.positionVersion === positionVersion &&
+      last.instanceVersion === instanceVersion &&
+      last.instanceCount === instanceCount &&
+      last.matrixWorld.equals(object.matrixWorld)
+    ) return false;
+
+    this.anchorSources.set(object, { inScene, position, positionVersion, instanceVersion, instanceCount, matrixWorld: object.matrixWorld.clone() });
+    return true;
+  }
+
+  // Moves the free points, the offset point and the circle normal with the anchored points:
+  // pinned to the first one and turned the way the line to the next one turned
+  private followAnchors(data: DimensionData, pairs: [THREE.Vector3, THREE.Vector3][]) {
+    const [from, to] = pairs[0];
+    const rotation = new THREE.Quaternion();
+    const second = pairs.find(([a, b]) => a.distanceToSquared(from) > 1e-12 && b.distanceToSquared(to) > 1e-12);
+    if (second) {
+      rotation.setFromUnitVectors(
+        new THREE.Vector3().subVectors(second[0], from).normalize(),
+        new THREE.Vector3().subVectors(second[1], to).normalize()
+      );
+    }
+
+    const follow = (p: THREE.Vector3) => p.sub(from).applyQuaternion(rotation).add(to);
+    for (const key of ANCHOR_KEYS) {
+      const p = data[key];
+      if (p && !data.anchors?.[key]) follow(p);
+    }
+    follow(data.offsetPoint);
+    data.normal?.applyQuaternion(rotation);
+  }
+
+  public getOrphanedDimensions(): DimensionData[] {
+    return this.dimensionData.filter(d => d.anchors && ANCHOR_KEYS.some(k => d.anchors![k]?.orphaned));
+  }
+
+  public removeDimension(id: number): DimensionData | null {
+    const index = this.dimensionData.findIndex(d => d.id === id);
+    if (index === -1) return null;
+
+    const [removed] = this.dimensionData.splice(index, 1);
+    const wasSelected = this.selectedId === id;
+    if (wasSelected) {
+      this.selectedId = null;
+      this.activeGrip = null;
+    }
+    this.rebuildAll();
+    this.dispatchEvent({ type: 'dimensionRemoved', dimension: removed });
+    if (wasSelected) this.dispatchEvent({ type: 'selectionChange', id: null });
+    return removed;
+  }
+
+  // --- Selection & Grips ---
+
+  public getSelectedId() {
+    return this.selectedId;
+  }
+
+  public setSelected(id: number | null) {
+    if (id === this.selectedId) return;
+    this.selectedId = id !== null && this.getDimension(id) ? id : null;
+    this.activeGrip = null;
+    this.rebuildAll();
+    this.dispatchEvent({ type: 'selectionChange', id: this.selectedId });
+  }
+
+  // Selecting one member of a string highlights the whole string
+  private isSelected(data: DimensionData): boolean {
+    if (this.selectedId === null) return false;
+    if (data.id === this.selectedId) return true;
+    return data.groupId !== undefined && data.groupId === this.getDimension(this.selectedId)?.groupId;
+  }
+
+  // Highlight the grip currently being dragged
+  public setActiveGrip(key: GripKey | null) {
+    this.activeGrip = key;
+    this.rebuildGrips();
+  }
+
+  // Returns the id of the dimension under the ray, if any
+  public pickDimension(raycaster: THREE.Raycaster): number | null {
+    const intersects = raycaster.intersectObjects(this.dimensionsGroup.children, true);
+    for (const hit of intersects) {
+      let obj: THREE.Object3D | null = hit.object;
+      while (obj && obj !== this.dimensionsGroup) {
+        if (obj.userData.dimensionId !== undefined) return obj.userData.dimensionId;
+        obj = obj.parent;
+      }
+    }
+    return null;
+  }
+
+  // Returns the grip of the selected dimension under the ray, if any
+  public pickGrip(raycaster: THREE.Raycaster): GripKey | null {
+    const intersects = raycaster.intersectObjects(this.gripsGroup.children, false);
+    return intersects.length > 0 ? intersects[0].object.userData.gripKey : null;
+  }
+
+  public updatePreview(type: DimensionType, start: THREE.Vector3, end: THREE.Vector3, offsetPoint: THREE.Vector3, angleP2?: THREE.Vector3, text?: string, extras?: DimensionExtras) {
+    this.clearGroup(this.previewGroup);
     // Mock data for preview
     const data: DimensionData = {
+      ...extras,
       id: -1,
       type,
       start,
@@ -74,46 +548,263 @@ export class DimensionRenderer {
   }
 
   public clearPreview() {
-    this.previewGroup.clear();
+    this.clearGroup(this.previewGroup);
   }
 
   public clear() {
+    const removed = this.dimensionData;
+    const hadSelection = this.selectedId !== null;
     this.dimensionData = [];
-    this.dimensionsGroup.clear();
-    this.previewGroup.clear();
+    this.selectedId = null;
+    this.activeGrip = null;
+    this.clearGroup(this.dimensionsGroup);
+    this.clearGroup(this.previewGroup);
+    this.clearGrips();
+    removed.forEach(data => this.dispatchEvent({ type: 'dimensionRemoved', dimension: data }));
+    if (hadSelection) this.dispatchEvent({ type: 'selectionChange', id: null });
   }
 
   private rebuildAll() {
-    this.dimensionsGroup.clear();
+    this.clearGroup(this.dimensionsGroup);
     for (const data of this.dimensionData) {
       const group = this.buildGeometry(data, false);
-      if (group) this.dimensionsGroup.add(group);
+      if (group) {
+        group.userData.dimensionId = data.id;
+        this.dimensionsGroup.add(group);
+      }
+    }
+    this.rebuildGrips();
+  }
+
+  // Rebuild just these dimensions, e.g. on every step of a grip drag
+  private rebuild(dimensions: Iterable<DimensionData>) {
+    let selected = false;
+    for (const data of dimensions) {
+      const old = this.dimensionsGroup.children.find(child => child.userData.dimensionId === data.id);
+      if (old) {
+        this.disposeLabels(old);
+        this.dimensionsGroup.remove(old);
+      }
+      const group = this.buildGeometry(data, false);
+      if (group) {
+        group.userData.dimensionId = data.id;
+        this.dimensionsGroup.add(group);
+      }
+      if (data.id === this.selectedId) selected = true;
+    }
+    if (selected) this.rebuildGrips();
+  }
+
+  // Grips share one geometry; only their materials are their own
+  private clearGrips() {
+    this.gripsGroup.children.forEach(grip => ((grip as THREE.Mesh).material as THREE.Material).dispose());
+    this.gripsGroup.clear();
+  }
+
+  private rebuildGrips() {
+    this.clearGrips();
+    if (this.selectedId === null) return;
+    const data = this.getDimension(this.selectedId);
+    if (!data) return;
+
+    const style = this.getStyle(data);
+
+    for (const key of GRIP_KEYS) {
+      const point = data[key];
+      if (!point) continue;
+      if (data.type === 'ordinate' && key === 'end') continue; // Same as start
+      if (data.type === 'area' && key !== 'offsetPoint') continue; // Only the label moves
+
+      const material = new THREE.MeshBasicMaterial({
+        color: key === this.activeGrip ? 0xff3300 : 0x0088ff,
+        depthTest: false,
+        transparent: true,
+        opacity: 0.9
+      });
+      const grip = new THREE.Mesh(this.gripGeometry, material);
+      this.placeSized(grip, style, point);
+      grip.renderOrder = 1000;
+      grip.userData.gripKey = key;
+      this.gripsGroup.add(grip);
+    }
+  }
+
+  // Global style with the dimension's own overrides applied
+  public getStyle(data: DimensionData): DimensionStyle {
+    return data.style ? { ...this.style, ...data.style } : this.style;
+  }
+
+  // Base color for a dimension, faded for previews and tinted when selected
+  private getColor(data: DimensionData, isPreview: boolean): THREE.Color {
+    const style = this.getStyle(data);
+    const color = new THREE.Color(style.color);
+    if (isPreview) color.lerp(new THREE.Color(0x888888), 0.5);
+    else if (this.isSelected(data)) color.lerp(new THREE.Color(0x0088ff), 0.7);
+    else if (data.anchors && ANCHOR_KEYS.some(k => data.anchors![k]?.orphaned)) color.lerp(new THREE.Color(0xff0000), 0.6);
+    return color;
+  }
+
+  // Label sprite from the style's text backend, at unit size for placeSized
+  private createLabel(text: string, style: DimensionStyle): THREE.Sprite {
+    const sprite = getTextBackend(style.textBackend).createLabel(text, {
+      color: style.color,
+      scale: 1,
+      background: style.textBgColor,
+      fontFamily: style.fontFamily,
+      fontWeight: style.fontWeight
+    });
+    sprite.userData.textBackend = style.textBackend;
+    return sprite;
+  }
+
+  // Dimension text: a sprite, or with 'aligned' text a flat label along `direction` in the plane
+  // with `normal`. Falls back to the sprite without a plane or if the backend can't draw flat text.
+  private createDimensionLabel(
+    text: string,
+    style: DimensionStyle,
+    direction: THREE.Vector3,
+    normal?: THREE.Vector3
+  ): THREE.Sprite | THREE.Mesh<THREE.BufferGeometry, THREE.Material> {
+    const backend = getTextBackend(style.textBackend);
+    if (style.textMode !== 'aligned' || !backend.createPlanarLabel || !normal) return this.createLabel(text, style);
+
+    const n = normal.clone().normalize();
+    const x = direction.clone().projectOnPlane(n).normalize();
+    if (n.lengthSq() < 0.5 || x.lengthSq() < 0.5) return this.createLabel(text, style);
+
+    const mesh = backend.createPlanarLabel(text, {
+      color: style.color,
+      scale: 1,
+      background: style.textBgColor,
+      fontFamily: style.fontFamily,
+      fontWeight: style.fontWeight
+    }) as THREE.Mesh<THREE.BufferGeometry, THREE.Material>;
+    mesh.userData.textBackend = style.textBackend;
+    mesh.userData.alignment = { direction: x, normal: n };
+    mesh.quaternion.setFromRotationMatrix(new THREE.Matrix4().makeBasis(x, new THREE.Vector3().crossVectors(n, x), n));
+    if (this.labelCamera) this.orientLabel(mesh, this.labelCamera);
+    return mesh;
+  }
+
+  // Flips an aligned label's normal toward the camera and its reading direction to the screen's
+  // right (or up, when the dimension runs straight up the screen)
+  private orientLabel(label: THREE.Object3D, camera: THREE.Camera) {
+    const { direction, normal } = label.userData.alignment as { direction: THREE.Vector3; normal: THREE.Vector3 };
+    const right = new THREE.Vector3().setFromMatrixColumn(camera.matrixWorld, 0);
+    const up = new THREE.Vector3().setFromMatrixColumn(camera.matrixWorld, 1);
+
+    // Orthographic cameras look along their -Z everywhere; perspective ones from their position
+    const toCamera = (camera as THREE.OrthographicCamera).isOrthographicCamera
+      ? new THREE.Vector3().setFromMatrixColumn(camera.matrixWorld, 2)
+      : new THREE.Vector3().setFromMatrixPosition(camera.matrixWorld).sub(label.getWorldPosition(new THREE.Vector3()));
+
+    const n = normal.clone();
+    if (n.dot(toCamera) < 0) n.negate();
+    const x = direction.clone();
+    const onRight = x.dot(right);
+    if (onRight < -1e-3 || (onRight <= 1e-3 && x.dot(up) < 0)) x.negate();
+
+    label.quaternion.setFromRotationMatrix(new THREE.Matrix4().makeBasis(x, new THREE.Vector3().crossVectors(n, x), n));
+  }
+
+  // Puts a part built at unit size (text, arrow, tick, grip) at `anchor` + `offset`, both scaled by
+  // the world size of style.scale: fixed, or with sizeMode 'screen' refreshed by updateScreenSizes
+  private placeSized(object: THREE.Object3D, style: DimensionStyle, anchor: THREE.Vector3, offset?: THREE.Vector3) {
+    object.userData.unitScale ??= object.scale.clone();
+    if (style.sizeMode === 'screen') {
+      object.userData.screenSize = { anchor: anchor.clone(), offset: offset?.clone() ?? new THREE.Vector3(), style };
+      this.applyScreenSize(object);
+    } else {
+      delete object.userData.screenSize;
+      object.scale.copy(object.userData.unitScale).multiplyScalar(style.scale);
+      object.position.copy(anchor);
+      if (offset) object.position.addScaledVector(offset, style.scale);
     }
   }
 
+  private applyScreenSize(object: THREE.Object3D) {
+    const { anchor, offset, style } = object.userData.screenSize as { anchor: THREE.Vector3; offset: THREE.Vector3; style: DimensionStyle };
+    const size = this.getUnitSize(style, anchor);
+    object.scale.copy(object.userData.unitScale).multiplyScalar(size);
+    object.position.copy(anchor).addScaledVector(offset, size);
+  }
+
+  // Moves line vertices that sit a style-sized distance from a point, e.g. extension line overshoots.
+  // Like placeSized, sizeMode 'screen' keeps them up to date in updateScreenSizes.
+  private placeSizedVertices(line: THREE.Line, style: DimensionStyle, vertices: SizedVertex[]) {
+    line.userData.screenVertices = { style, vertices };
+    this.applySizedVertices(line);
+    if (style.sizeMode !== 'screen') delete line.userData.screenVertices;
+  }
+
+  private applySizedVertices(line: THREE.Line) {
+    const { style, vertices } = line.userData.screenVertices as { style: DimensionStyle; vertices: SizedVertex[] };
+    const position = line.geometry.getAttribute('position') as THREE.BufferAttribute;
+    const point = new THREE.Vector3();
+    for (const vertex of vertices) {
+      const length = Math.min(vertex.length * this.getUnitSize(style, vertex.anchor), vertex.maxLength ?? Infinity);
+      point.copy(vertex.anchor).addScaledVector(vertex.direction, length);
+      position.setXYZ(vertex.index, point.x, point.y, point.z);
+    }
+    position.needsUpdate = true;
+    line.geometry.computeBoundingSphere();
+  }
+
+  // World length of one unit of style.scale at `point`. Screen sizes are measured by projecting
+  // through the last camera given to updateScreenSizes, so orthographic zoom works like distance;
+  // before there is one they fall back to world sizes.
+  public getUnitSize(style: DimensionStyle, point: THREE.Vector3): number {
+    const camera = this.sizeCamera;
+    if (style.sizeMode !== 'screen' || !camera || this.viewportHeight <= 0) return style.scale;
+
+    const ndc = point.clone().project(camera);
+    const above = ndc.clone();
+    above.y += 2 / this.viewportHeight; // One pixel up
+    const pixel = above.unproject(camera).distanceTo(ndc.unproject(camera));
+    return style.scale * style.screenScale * pixel;
+  }
+
+  // Frees the labels' textures and materials; labels are rebuilt on every change
+  private disposeLabels(object: THREE.Object3D) {
+    object.traverse(child => {
+      if (child.userData.textBackend !== undefined) getTextBackend(child.userData.textBackend).disposeLabel(child as THREE.Sprite | THREE.Mesh);
+    });
+  }
+
+  private clearGroup(group: THREE.Group) {
+    this.disposeLabels(group);
+    group.clear();
+  }
+
   private buildGeometry(data: DimensionData, isPreview: boolean): THREE.Group | null {
     if (data.type === 'angle') {
       return this.buildAngleGeometry(data, isPreview);
     } else if (data.type === 'leader') {
       return this.buildLeaderGeometry(data, isPreview);
+    } else if (data.type === 'radius' || data.type === 'diameter') {
+      return this.buildRadialGeometry(data, isPreview);
+    } else if (data.type === 'ordinate') {
+      return this.buildOrdinateGeometry(data, isPreview);
+    } else if (data.type === 'area') {
+      return this.buildAreaGeometry(data, isPreview);
     } else {
       return this.buildLinearGeometry(data, isPreview);
     }
   }
 
   private buildLeaderGeometry(data: DimensionData, isPreview: boolean): THREE.Group | null {
+    const style = this.getStyle(data);
     // Start = Origin (Arrow)
     // End = Elbow
     // OffsetPoint = End of extension (Text)
     
     const { start, end, offsetPoint } = data;
     const group = new THREE.Group();
-    const color = new THREE.Color(this.style.color);
-    if (isPreview) color.lerp(new THREE.Color(0x888888), 0.5);
+    const color = this.getColor(data, isPreview);
 
     const lineMat = new THREE.LineBasicMaterial({ 
       color: color, 
-      depthTest: this.style.depthTest,
+      depthTest: style.depthTest,
       transparent: true,
       opacity: isPreview ? 0.6 : 1.0 
     });
@@ -134,33 +825,228 @@ export class DimensionRenderer {
     // If zero length (start==end), fallback
     if (arrowDir.lengthSq() < 0.0001) arrowDir.set(0, 1, 0);
 
-    // Cone geometry for arrow
-    const arrowLen = 0.2 * this.style.scale;
-    const arrowWidth = 0.05 * this.style.scale;
+    group.add(this.createArrow(start, arrowDir, color, style));
+
+    // 4. Text
+    const label = data.text || "Note";
+    const extDir = new THREE.Vector3().subVectors(offsetPoint, end).normalize();
+    if (extDir.lengthSq() < 0.0001) extDir.set(1, 0, 0);
+
+    // Aligned text lies in the plane of the two legs (a straight leader has none: sprite)
+    const legsNormal = new THREE.Vector3().subVectors(start, end).cross(extDir);
+
+    const sprite = this.createDimensionLabel(label, style, extDir, legsNormal);
+    this.placeSized(sprite, style, offsetPoint, extDir.clone().multiplyScalar(0.2));
+
+    if (!style.depthTest) {
+      sprite.material.depthTest = false;
+      sprite.renderOrder = 999;
+    }
+    group.add(sprite);
+
+    return group;
+  }
+
+  // Cone arrowhead with its tip at `tip`, pointing along `dir`
+  private createArrow(tip: THREE.Vector3, dir: THREE.Vector3, color: THREE.Color, style: DimensionStyle): THREE.Mesh {
+    // Cone geometry for arrow, at unit size
+    const arrowLen = 0.2;
+    const arrowWidth = 0.05;
     
     const coneGeo = new THREE.ConeGeometry(arrowWidth, arrowLen, 8);
-    const cone = new THREE.Mesh(coneGeo, new THREE.MeshBasicMaterial({ color: color, depthTest: this.style.depthTest }));
+    const cone = new THREE.Mesh(coneGeo, new THREE.MeshBasicMaterial({ color: color, depthTest: style.depthTest }));
     
     // Align cone
     const quaternion = new THREE.Quaternion();
-    quaternion.setFromUnitVectors(new THREE.Vector3(0, 1, 0), arrowDir);
+    quaternion.setFromUnitVectors(new THREE.Vector3(0, 1, 0), dir);
     cone.setRotationFromQuaternion(quaternion);
     
-    const conePos = start.clone().sub(arrowDir.clone().multiplyScalar(arrowLen / 2));
-    cone.position.copy(conePos);
-    
-    group.add(cone);
+    this.placeSized(cone, style, tip, dir.clone().multiplyScalar(-arrowLen / 2));
+    return cone;
+  }
 
-    // 4. Text
-    const label = data.text || "Note";
-    const extDir = new THREE.Vector3().subVectors(offsetPoint, end).normalize();
-    if (extDir.lengthSq() < 0.0001) extDir.set(1, 0, 0);
+  private buildRadialGeometry(data: DimensionData, isPreview: boolean): THREE.Group | null {
+    const style = this.getStyle(data);
+    // Start = Center
+    // End = Point on the circle (defines the radius)
+    // OffsetPoint = Text Pos
+    const { start: center, end, offsetPoint } = data;
+    const radius = center.distanceTo(end);
+    if (radius < 0.001) return null;
 
-    const textPos = offsetPoint.clone().add(extDir.multiplyScalar(0.2 * this.style.scale));
-    const sprite = createTextSprite(label, this.style.color, this.style.scale, this.style.textBgColor);
-    sprite.position.copy(textPos);
+    const isDiameter = data.type === 'diameter';
+    const group = new THREE.Group();
+    const color = this.getColor(data, isPreview);
 
-    if (!this.style.depthTest) {
+    const lineMat = new THREE.LineBasicMaterial({ 
+      color: color, 
+      depthTest: style.depthTest,
+      transparent: true,
+      opacity: isPreview ? 0.6 : 1.0 
+    });
+
+    // 1. Direction from the center toward the text, kept in the circle's plane
+    const dir = new THREE.Vector3().subVectors(offsetPoint, center);
+    if (data.normal) dir.projectOnPlane(data.normal);
+    if (dir.lengthSq() < 0.0001) dir.subVectors(end, center);
+    dir.normalize();
+
+    const tip = center.clone().add(dir.clone().multiplyScalar(radius));
+    const far = isDiameter ? center.clone().sub(dir.clone().multiplyScalar(radius)) : center;
+    const outside = center.distanceTo(offsetPoint) > radius;
+
+    // 2. Dimension line: across the circle (diameter) or from the center (radius),
+    // continuing out to the text when it sits outside the circle
+    group.add(new THREE.Line(new THREE.BufferGeometry().setFromPoints([far, tip]), lineMat));
+    if (outside) {
+      group.add(new THREE.Line(new THREE.BufferGeometry().setFromPoints([tip, offsetPoint]), lineMat));
+    }
+
+    // 3. Arrows touch the circle: from outside they point inward, from inside outward
+    group.add(this.createArrow(tip, outside ? dir.clone().negate() : dir, color, style));
+    if (isDiameter) {
+      group.add(this.createArrow(far, dir.clone().negate(), color, style));
+    }
+
+    // 4. Center mark
+    const markSize = 0.1;
+    const side = data.normal ? new THREE.Vector3().crossVectors(data.normal, dir).normalize() : new THREE.Vector3();
+    if (side.lengthSq() < 0.0001) side.set(0, 1, 0).cross(dir).normalize();
+    const markPoints = [
+      dir.clone().multiplyScalar(-markSize), dir.clone().multiplyScalar(markSize),
+      side.clone().multiplyScalar(-markSize), side.clone().multiplyScalar(markSize)
+    ];
+    const mark = new THREE.LineSegments(new THREE.BufferGeometry().setFromPoints(markPoints), lineMat);
+    this.placeSized(mark, style, center);
+    group.add(mark);
+
+    // 5. Text
+    const label = isDiameter ? 'Ø' + formatLength(radius * 2, style) : 'R' + formatLength(radius, style);
+    const sprite = this.createDimensionLabel(label, style, dir, data.normal);
+    this.placeSized(sprite, style, offsetPoint, outside ? dir.clone().multiplyScalar(0.2) : undefined);
+
+    if (!style.depthTest) {
+      sprite.material.depthTest = false;
+      sprite.renderOrder = 999;
+    }
+    group.add(sprite);
+
+    return group;
+  }
+
+  private buildOrdinateGeometry(data: DimensionData, isPreview: boolean): THREE.Group | null {
+    const style = this.getStyle(data);
+    // Start = Measured point
+    // OffsetPoint = Text Pos
+    // The leader leaves the point square to the measured axis, then jogs over to the text
+    const { start, offsetPoint, datum } = data;
+    if (!datum) return null;
+
+    const group = new THREE.Group();
+    const color = this.getColor(data, isPreview);
+
+    const lineMat = new THREE.LineBasicMaterial({ 
+      color: color, 
+      depthTest: style.depthTest,
+      transparent: true,
+      opacity: isPreview ? 0.6 : 1.0 
+    });
+
+    // 1. Coordinate in the datum frame
+    const { xAxis, yAxis } = getCPlaneAxes(datum);
+    const measureAxis = data.ordinateAxis === 'y' ? yAxis : xAxis;
+    const leaderAxis = data.ordinateAxis === 'y' ? xAxis : yAxis;
+    const value = new THREE.Vector3().subVectors(start, datum.origin).dot(measureAxis);
+
+    // 2. Leader: small gap at the point, straight out, then the jog
+    const along = new THREE.Vector3().subVectors(offsetPoint, start).dot(leaderAxis);
+    const leaderDir = leaderAxis.clone().multiplyScalar(along < 0 ? -1 : 1);
+    const knee = start.clone().add(leaderAxis.clone().multiplyScalar(along));
+    const points = [start, knee];
+    if (knee.distanceTo(offsetPoint) > 0.0001) points.push(offsetPoint);
+    const leader = new THREE.Line(new THREE.BufferGeometry().setFromPoints(points), lineMat);
+    this.placeSizedVertices(leader, style, [{ index: 0, anchor: start, direction: leaderDir, length: 0.05, maxLength: Math.abs(along) }]);
+    group.add(leader);
+
+    // 3. Text, just beyond the end of the leader
+    const sprite = this.createDimensionLabel(formatLength(value, style), style, leaderDir, datum.normal);
+    this.placeSized(sprite, style, offsetPoint, leaderDir.clone().multiplyScalar(0.2));
+
+    if (!style.depthTest) {
+      sprite.material.depthTest = false;
+      sprite.renderOrder = 999;
+    }
+    group.add(sprite);
+
+    return group;
+  }
+
+  private buildAreaGeometry(data: DimensionData, isPreview: boolean): THREE.Group | null {
+    const style = this.getStyle(data);
+    // Start = Centroid
+    // OffsetPoint = Text Pos
+    // Region = points (drawn polygon) or triangles (picked faces)
+    let triangles = data.triangles;
+    let outline: THREE.Vector3[];
+    const normal = new THREE.Vector3();
+    if (data.points) {
+      const plane = bestFitPlane(data.points);
+      if (!plane) return null;
+      normal.copy(plane.normal);
+      triangles = triangulatePolygon(data.points, plane.normal);
+      outline = data.points.flatMap((p, i) => [p, data.points![(i + 1) % data.points!.length]]);
+    } else if (triangles) {
+      outline = getBoundaryEdges(triangles).flat();
+      // Area-weighted average of the faces' normals
+      for (let i = 0; i + 2 < triangles.length; i += 3) {
+        const a = triangles[i];
+        normal.add(new THREE.Vector3().subVectors(triangles[i + 1], a).cross(new THREE.Vector3().subVectors(triangles[i + 2], a)));
+      }
+    } else {
+      return null;
+    }
+
+    const group = new THREE.Group();
+    const color = this.getColor(data, isPreview);
+
+    // 1. Translucent fill
+    const fillMat = new THREE.MeshBasicMaterial({
+      color: color,
+      depthTest: style.depthTest,
+      depthWrite: false,
+      transparent: true,
+      opacity: isPreview ? 0.1 : 0.2,
+      side: THREE.DoubleSide,
+      polygonOffset: true, // Don't z-fight the faces it was picked from
+      polygonOffsetFactor: -1,
+      polygonOffsetUnits: -1
+    });
+    group.add(new THREE.Mesh(new THREE.BufferGeometry().setFromPoints(triangles), fillMat));
+
+    // 2. Outline
+    const lineMat = new THREE.LineBasicMaterial({ 
+      color: color, 
+      depthTest: style.depthTest,
+      transparent: true,
+      opacity: isPreview ? 0.6 : 1.0 
+    });
+    group.add(new THREE.LineSegments(new THREE.BufferGeometry().setFromPoints(outline), lineMat));
+
+    // 3. Text
+    let label = formatArea(getTrianglesArea(triangles), style);
+    if (style.showPerimeter) {
+      let perimeter = 0;
+      for (let i = 0; i < outline.length; i += 2) perimeter += outline[i].distanceTo(outline[i + 1]);
+      label += `  P ${formatLength(perimeter, style)}`;
+    }
+    // Aligned text reads along the region's plane X axis, as for a CPlane with that normal
+    const textPlane = normal.lengthSq() > 1e-12 ? createCPlane(data.offsetPoint, normal.normalize()) : null;
+    const sprite = textPlane
+      ? this.createDimensionLabel(label, style, getCPlaneAxes(textPlane).xAxis, textPlane.normal)
+      : this.createLabel(label, style);
+    this.placeSized(sprite, style, data.offsetPoint);
+
+    if (!style.depthTest) {
       sprite.material.depthTest = false;
       sprite.renderOrder = 999;
     }
@@ -170,42 +1056,61 @@ export class DimensionRenderer {
   }
 
   private buildLinearGeometry(data: DimensionData, isPreview: boolean): THREE.Group | null {
+    const style = this.getStyle(data);
     const { start, end, offsetPoint } = data;
-    const distance = start.distanceTo(end);
+    const ab = new THREE.Vector3().subVectors(end, start);
+
+    // Linear dimensions measure along their axis; aligned ones (and linear ones
+    // saved without an axis) measure the true distance along AB.
+    const projected = data.type === 'linear' && !!data.axis;
+    const dir = projected ? data.axis!.clone().normalize() : ab.clone().normalize();
+    const distance = Math.abs(ab.dot(dir));
     if (distance < 0.001) return null;
 
     const group = new THREE.Group();
-    const color = new THREE.Color(this.style.color);
-    if (isPreview) color.lerp(new THREE.Color(0x888888), 0.5);
+    const color = this.getColor(data, isPreview);
 
     // 1. Calculate Offset Vector
-    // The dimension line is parallel to AB.
-    // It passes through the projection of offsetPoint onto the plane defined by normal = AB? 
-    // No, usually we want the dimension line to pass through offsetPoint directly if possible, 
-    // OR be projected onto the plane defined by (A, B, OffsetPoint).
-    
-    const ab = new THREE.Vector3().subVectors(end, start);
-    const dir = ab.clone().normalize();
-    
-    // Vector from Start to OffsetPoint
-    const vStartOffset = new THREE.Vector3().subVectors(offsetPoint, start);
-    
-    // Project vStartOffset onto 'dir' to find the component along the line
-    const projectionLength = vStartOffset.dot(dir);
-    const projectionVec = dir.clone().multiplyScalar(projectionLength);
-    
-    // The vector from the line AB to the OffsetPoint is the perpendicular component
-    const perpVec = new THREE.Vector3().subVectors(vStartOffset, projectionVec);
-    
-    // So the dimension line endpoints are:
-    const p1 = start.clone().add(perpVec);
-    const p2 = end.clone().add(perpVec);
+    let p1: THREE.Vector3;
+    let p2: THREE.Vector3;
+    let perpVec: THREE.Vector3;
+
+    if (projected) {
+      // The dimension line runs along the axis through offsetPoint,
+      // and each point is dropped straight onto it.
+      p1 = offsetPoint.clone().add(dir.clone().multiplyScalar(new THREE.Vector3().subVectors(start, offsetPoint).dot(dir)));
+      p2 = offsetPoint.clone().add(dir.clone().multiplyScalar(new THREE.Vector3().subVectors(end, offsetPoint).dot(dir)));
+
+      // Side of the measured points the line was dragged to
+      const mid = new THREE.Vector3().addVectors(start, end).multiplyScalar(0.5);
+      const vMidOffset = new THREE.Vector3().subVectors(offsetPoint, mid);
+      perpVec = vMidOffset.sub(dir.clone().multiplyScalar(vMidOffset.dot(dir)));
+    } else {
+      // The dimension line is parallel to AB.
+      // It passes through the projection of offsetPoint onto the plane defined by normal = AB? 
+      // No, usually we want the dimension line to pass through offsetPoint directly if possible, 
+      // OR be projected onto the plane defined by (A, B, OffsetPoint).
+
+      // Vector from Start to OffsetPoint
+      const vStartOffset = new THREE.Vector3().subVectors(offsetPoint, start);
+
+      // Project vStartOffset onto 'dir' to find the component along the line
+      const projectionLength = vStartOffset.dot(dir);
+      const projectionVec = dir.clone().multiplyScalar(projectionLength);
+
+      // The vector from the line AB to the OffsetPoint is the perpendicular component
+      perpVec = new THREE.Vector3().subVectors(vStartOffset, projectionVec);
+
+      // So the dimension line endpoints are:
+      p1 = start.clone().add(perpVec);
+      p2 = end.clone().add(perpVec);
+    }
 
     // 2. Main Dimension Line
     const lineGeo = new THREE.BufferGeometry().setFromPoints([p1, p2]);
     const lineMat = new THREE.LineBasicMaterial({ 
       color: color, 
-      depthTest: this.style.depthTest,
+      depthTest: style.depthTest,
       transparent: true,
       opacity: isPreview ? 0.6 : 1.0
     });
@@ -215,7 +1120,7 @@ export class DimensionRenderer {
     // From object (start/end) to dimension line (p1/p2)
     // Often we want a small gap from the object and a small extension past the dim line.
     const gap = 0.0; // Gap from object
-    const extension = 0.1 * this.style.scale; // Extension past dim line
+    const extension = 0.1; // Extension past dim line, unit size (see placeSizedVertices)
     
     // Direction of leader is perpVec normalized (if length > 0)
     let leaderDir = perpVec.clone().normalize();
@@ -226,27 +1131,33 @@ export class DimensionRenderer {
       leaderDir = new THREE.Vector3(0, 1, 0);
     }
 
-    const l1Start = start.clone().add(leaderDir.clone().multiplyScalar(gap));
-    const l1End = p1.clone().add(leaderDir.clone().multiplyScalar(extension));
-    
-    const l2Start = end.clone().add(leaderDir.clone().multiplyScalar(gap));
-    const l2End = p2.clone().add(leaderDir.clone().multiplyScalar(extension));
+    // For projected dimensions each extension line has its own length (and possibly side)
+    const ext1Dir = new THREE.Vector3().subVectors(p1, start);
+    const ext2Dir = new THREE.Vector3().subVectors(p2, end);
+    if (ext1Dir.lengthSq() < 0.0001) ext1Dir.copy(leaderDir); else ext1Dir.normalize();
+    if (ext2Dir.lengthSq() < 0.0001) ext2Dir.copy(leaderDir); else ext2Dir.normalize();
+
+    const l1Start = start.clone().add(ext1Dir.clone().multiplyScalar(gap));
+    const l2Start = end.clone().add(ext2Dir.clone().multiplyScalar(gap));
 
     const leaderMat = new THREE.LineBasicMaterial({ 
       color: color, 
-      depthTest: this.style.depthTest, 
+      depthTest: style.depthTest, 
       transparent: true, 
       opacity: 0.5 
     });
-    group.add(new THREE.Line(new THREE.BufferGeometry().setFromPoints([l1Start, l1End]), leaderMat));
-    group.add(new THREE.Line(new THREE.BufferGeometry().setFromPoints([l2Start, l2End]), leaderMat));
+    const leader1 = new THREE.Line(new THREE.BufferGeometry().setFromPoints([l1Start, p1]), leaderMat);
+    const leader2 = new THREE.Line(new THREE.BufferGeometry().setFromPoints([l2Start, p2]), leaderMat);
+    this.placeSizedVertices(leader1, style, [{ index: 1, anchor: p1, direction: ext1Dir, length: extension }]);
+    this.placeSizedVertices(leader2, style, [{ index: 1, anchor: p2, direction: ext2Dir, length: extension }]);
+    group.add(leader1, leader2);
 
     // 4. Ticks (Architecture Ticks - 45 degrees)
     // We need a vector perpendicular to the dimension line and the leader line.
     // Cross product of dir (dim line) and leaderDir.
     // const cross = new THREE.Vector3().crossVectors(dir, leaderDir).normalize();
     
-    const tickSize = 0.1 * this.style.scale;
+    const tickSize = 0.1; // Unit size, see placeSized
     // 45 degrees in the plane defined by (dir, leaderDir)?
     // Actually, standard architectural ticks are usually just 45 deg in view, but in 3D...
     // Let's just do a slash: (dir + leaderDir).normalize()? 
@@ -260,30 +1171,24 @@ export class DimensionRenderer {
     // Or just (dir + leaderDir) * size.
     
     const tickVec = new THREE.Vector3().addVectors(dir, leaderDir).normalize().multiplyScalar(tickSize);
-    
-    const t1a = p1.clone().sub(tickVec);
-    const t1b = p1.clone().add(tickVec);
-    const t2a = p2.clone().sub(tickVec);
-    const t2b = p2.clone().add(tickVec);
-
-    const ticksGeo = new THREE.BufferGeometry().setFromPoints([t1a, t1b, t2a, t2b]);
-    const ticks = new THREE.LineSegments(ticksGeo, lineMat);
-    group.add(ticks);
+    const tickGeo = new THREE.BufferGeometry().setFromPoints([tickVec.clone().negate(), tickVec]);
+    for (const p of [p1, p2]) {
+      const tick = new THREE.LineSegments(tickGeo, lineMat);
+      this.placeSized(tick, style, p);
+      group.add(tick);
+    }
 
     // 5. Text
-    // Format units
-    let label = distance.toFixed(2);
-    if (this.style.units === 'mm') label = (distance * 1000).toFixed(0);
-    else if (this.style.units === 'ft') label = (distance * 3.28084).toFixed(2) + "'";
-    else label += 'm';
+    const label = formatLength(distance, style);
 
-    const sprite = createTextSprite(label, this.style.color, this.style.scale, this.style.textBgColor);
+    // Aligned text lies in the plane of the dimension and extension lines
+    const sprite = this.createDimensionLabel(label, style, dir, new THREE.Vector3().crossVectors(dir, leaderDir));
     const midPoint = new THREE.Vector3().addVectors(p1, p2).multiplyScalar(0.5);
     // Offset text slightly "above" (along leader dir)
-    sprite.position.copy(midPoint).add(leaderDir.clone().multiplyScalar(0.2 * this.style.scale));
+    this.placeSized(sprite, style, midPoint, leaderDir.clone().multiplyScalar(0.2));
     
     // Optional: Disable depth test for text to make it always readable?
-    if (!this.style.depthTest) {
+    if (!style.depthTest) {
       sprite.material.depthTest = false;
       sprite.renderOrder = 999;
     }
@@ -294,6 +1199,7 @@ export class DimensionRenderer {
   }
 
   private buildAngleGeometry(data: DimensionData, isPreview: boolean): THREE.Group | null {
+    const style = this.getStyle(data);
     // Center = start
     // Arm 1 = end
     // Arm 2 = angleP2
@@ -306,12 +1212,11 @@ export class DimensionRenderer {
     const radiusPoint = data.offsetPoint;
 
     const group = new THREE.Group();
-    const color = new THREE.Color(this.style.color);
-    if (isPreview) color.lerp(new THREE.Color(0x888888), 0.5);
+    const color = this.getColor(data, isPreview);
     
     const lineMat = new THREE.LineBasicMaterial({ 
       color: color, 
-      depthTest: this.style.depthTest,
+      depthTest: style.depthTest,
       transparent: true,
       opacity: isPreview ? 0.6 : 1.0 
     });
@@ -346,7 +1251,6 @@ export class DimensionRenderer {
     // We need an arc between dir1 and dir2 on the plane defined by them.
     // Calculate angle
     let angle = v1.angleTo(v2); // Radians
-    const degrees = THREE.MathUtils.radToDeg(angle);
     
     // We need to draw the arc points.
     // Plane normal
@@ -390,15 +1294,17 @@ export class DimensionRenderer {
     group.add(new THREE.Line(arcGeo, lineMat));
 
     // 4. Text
-    const label = degrees.toFixed(1) + '°';
+    const label = formatAngle(angle, style);
     const midAngle = angle / 2;
     const midDir = dir1.clone().applyAxisAngle(normal, midAngle);
-    const textPos = center.clone().add(midDir.multiplyScalar(radius + 0.2 * this.style.scale));
+    const arcMid = center.clone().add(midDir.clone().multiplyScalar(radius));
     
-    const sprite = createTextSprite(label, this.style.color, this.style.scale, this.style.textBgColor);
-    sprite.position.copy(textPos);
+    // Aligned text follows the arc: along its tangent at the text, in the angle's plane
+    const tangent = new THREE.Vector3().crossVectors(normal, midDir);
+    const sprite = this.createDimensionLabel(label, style, tangent, normal);
+    this.placeSized(sprite, style, arcMid, midDir.clone().multiplyScalar(0.2));
     
-    if (!this.style.depthTest) {
+    if (!style.depthTest) {
       sprite.material.depthTest = false;
       sprite.renderOrder = 999;
     }
@@ -1,46 +1,250 @@
 import * as THREE from 'three';
 import { SnappingManager } from './SnappingManager';
 import { DimensionRenderer } from './DimensionRenderer';
-import { DimensionType, CPlane } from './types';
+import { CommandHistory } from './CommandHistory';
+import { DimensionType, InteractionState, DimensionSystemEventMap, CPlane, GripKey, DimensionData, DimensionStyle, DimensionSetJSON, DimensionImportResult, DimensionAnchor, DimensionAnchors, SnapResult, LinearAxis, AnchorKey, OrdinateAxis, TextInputProvider } from './types';
+import { createCPlane, getCPlaneAxes } from './utils/geometry';
+import { Circle, circleFromThreePoints, findCircularEdgeLoop } from './utils/circle';
+import { createOverlayTextInput } from './utils/textInput';
+import { bestFitPlane, collectCoplanarFaces, getTrianglesCentroid, projectOntoPlane, triangulatePolygon } from './utils/area';
+import { parseAngle, parseLength } from './utils/units';
+import { SERIALIZATION_VERSION, serializeDimension, serializeCPlane, parseDimension, parseStyle, parseCPlane, serializeNamedCPlanes, parseNamedCPlanes } from './utils/serialization';
+import { isDebugLogging, setDebugLogging } from './utils/log';
 
-type InteractionState = 'idle' | 'drawing' | 'drawing_angle_p2' | 'offsetting' | 'defining_cplane_p1' | 'defining_cplane_p2' | 'defining_cplane_p3' | 'defining_cplane_face' | 'translating_cplane';
 
-export class DimensionSystem {
+// How consecutive linear/aligned dimensions are strung together
+export type DimensionStringMode = 'single' | 'continuous' | 'baseline';
+
+// Where an area comes from: a polygon clicked point by point, or the flat region around a face
+export type AreaSource = 'polygon' | 'face';
+// Plane a clicked polygon is flattened onto
+export type AreaPlane = 'best-fit' | 'cplane';
+
+const ANCHOR_KEYS: AnchorKey[] = ['start', 'end', 'angleP2'];
+
+// target[key] = source[key], with the value type kept per key
+function copyStyleKey<K extends keyof DimensionStyle>(target: Partial<DimensionStyle>, source: DimensionStyle, key: K) {
+  target[key] = source[key];
+}
+
+// Control points and anchors of a dimension, for undoing edits
+interface DimensionSnapshot {
+  id: number;
+  points: Partial<Record<GripKey, THREE.Vector3>>;
+  anchors: Partial<Record<AnchorKey, DimensionAnchor | null>>;
+}
+
+export class DimensionSystem extends THREE.EventDispatcher<DimensionSystemEventMap> {
   private scene: THREE.Scene;
   private camera: THREE.Camera;
+  private renderer: THREE.WebGLRenderer;
   public snappingManager: SnappingManager;
   public dimensionRenderer: DimensionRenderer;
+  public history: CommandHistory;
   
   public mode: DimensionType = 'linear';
 
-  public cplane: CPlane = {
-    origin: new THREE.Vector3(0, 0, 0),
-    normal: new THREE.Vector3(0, 1, 0) // Default World XZ (Y-up)
-  };
+  // Constrain the rubber-band from the last placed point to the CPlane axes (ortho) or to
+  // multiples of polarIncrement degrees in the CPlane (polar). Snaps are projected onto the
+  // dashed tracking line. Holding the modifier (Shift, via InputController) flips ortho.
+  public orthoLock: boolean = false;
+  public polarTracking: boolean = false;
+  public polarIncrement: number = 15;
+  public constraintModifier: boolean = false;
+
+  // Free points (nothing snapped) land on the nearest CPlane grid intersection.
+  // Match gridSpacing to the grid you draw, e.g. CPlaneHelper.getSpacing().
+  public gridSnap: boolean = false;
+  public gridSpacing: number = 1;
+
+  // Asks for leader text. Defaults to a textarea over the canvas; replace it to use your own UI.
+  public textInputProvider: TextInputProvider;
+
+  // Also print prompts to the console (they are always sent as 'stateChange' events), and the
+  // library's warnings, e.g. about overridden built-in unit formats. Shared by every instance.
+  public get debug(): boolean {
+    return isDebugLogging();
+  }
+
+  public set debug(enabled: boolean) {
+    setDebugLogging(enabled);
+  }
+
+  // Axis linear dimensions measure along. 'auto' picks the CPlane X or Y axis
+  // from where the dimension line is dragged, like DIMLINEAR.
+  public linearAxis: 'auto' | LinearAxis = 'auto';
+
+  // Ordinate: which coordinate to label. 'auto' picks from the leader direction:
+  // a leader running along the CPlane's Y labels X, and vice versa.
+  public ordinateAxis: 'auto' | OrdinateAxis = 'auto';
+
+  // Area: measure a polygon clicked point by point, or the flat region around a clicked face
+  public areaSource: AreaSource = 'polygon';
+  // Area: plane a clicked polygon is flattened onto
+  public areaPlane: AreaPlane = 'best-fit';
+
+  // After the first linear/aligned dimension, keep adding segments: each click either
+  // continues from the last point on the same line, or measures again from the first
+  // point on a new row. Esc / finish() ends the string.
+  public stringMode: DimensionStringMode = 'single';
+
+  public cplane: CPlane = createCPlane(new THREE.Vector3(0, 0, 0), new THREE.Vector3(0, 1, 0), new THREE.Vector3(1, 0, 0)); // Default World XZ (Y-up)
+
+  private cplaneLibrary = new Map<string, CPlane>(); // Saved CPlanes by name, in the order they were added
 
   // State
   private state: InteractionState = 'idle';
   private startPoint: THREE.Vector3 | null = null; // Center / Leader Origin / CPlane P1
   private endPoint: THREE.Vector3 | null = null;   // Arm 1 / Leader Elbow / CPlane P2
   private angleP2: THREE.Vector3 | null = null;    // Arm 2 / CPlane P3
+  private anchors: DimensionAnchors = {};          // Associations of the snapped points so far
+  private circle: Circle | null = null;            // Radius / Diameter: the measured circle
+  private stringMembers: DimensionData[] = [];     // Dimensions placed so far in the current string
+  private polygonPoints: THREE.Vector3[] = [];     // Area: polygon corners clicked so far
+  private textRequest: AbortController | null = null; // Text input in progress, aborted on cancel
+  private numericInput = '';                       // Typed distance / angle, e.g. "3.25", "12'6\"" or "<45"
+  private typedPoint: THREE.Vector3 | null = null; // Where the typed text puts the next point, as previewed
+  private typedSnap: SnapResult | null = null;     // The typed point while it is being clicked in
+  private lastMouse = new THREE.Vector2();         // Cursor and objects of the last move, to redo the preview
+  private lastObjects: THREE.Object3D[] | undefined;
+
+  // Grip editing
+  private pickRaycaster = new THREE.Raycaster();
+  private dragGrip: GripKey | null = null;
+  private dragOrigin: THREE.Vector3 | null = null; // Grip position before the drag
+  private dragSnapshot: DimensionSnapshot[] | null = null; // The edited dimension (and its string) before the drag, for cancel/undo
 
   constructor(scene: THREE.Scene, camera: THREE.Camera, renderer: THREE.WebGLRenderer) {
+    super();
     this.scene = scene;
     this.camera = camera;
-    this.snappingManager = new SnappingManager(this.scene, this.camera);
+    this.renderer = renderer;
+    this.snappingManager = new SnappingManager(this.scene, this.camera, renderer);
+    this.snappingManager.cplane = this.cplane; // Same object, moved in place by setCPlane
     this.dimensionRenderer = new DimensionRenderer(this.scene);
-    
-    // Keep reference if needed later, or just ignore for now.
-    renderer.getSize(new THREE.Vector2());
+    this.history = new CommandHistory(100);
+    this.textInputProvider = createOverlayTextInput(renderer.domElement);
+
+    this.pickRaycaster.params.Line!.threshold = 0.1;
   }
 
-  public setCPlane(origin: THREE.Vector3, normal: THREE.Vector3) {
-    this.cplane.origin.copy(origin);
-    this.cplane.normal.copy(normal).normalize();
+  // Draw and pick through a different camera, e.g. an OrthographicCamera for plan and elevation views
+  public setCamera(camera: THREE.Camera) {
+    this.camera = camera;
+    this.snappingManager.setCamera(camera);
+  }
+
+  // Switch tools, dropping whatever was in progress
+  public setMode(mode: DimensionType) {
+    this.cancel();
+    this.mode = mode;
+    this.dispatchEvent({ type: 'modeChange', mode });
+  }
+
+  public setOrthoLock(enabled: boolean) {
+    this.orthoLock = enabled;
+    this.prompt(enabled ? 'Ortho on' : 'Ortho off');
+  }
+
+  public setGridSnap(enabled: boolean) {
+    this.gridSnap = enabled;
+    this.prompt(enabled ? `Grid snap on (${this.gridSpacing})` : 'Grid snap off');
+  }
+
+  public setPolarTracking(enabled: boolean) {
+    this.polarTracking = enabled;
+    this.prompt(enabled ? `Polar on (${this.polarIncrement}°)` : 'Polar off');
+  }
+
+  // The objects registered with the snapping manager, or if none are, every mesh, line and point
+  // cloud in the scene except dimensions, grips, snap markers and the given helpers
+  public getSnappableObjects(exclude: THREE.Object3D[] = []): THREE.Object3D[] {
+    if (this.snappingManager.hasSnappables()) {
+      const targets = this.snappingManager.getSnappables();
+      return exclude.length > 0 ? targets.filter(o => !exclude.includes(o)) : targets;
+    }
+
+    const skip = new Set<THREE.Object3D>([
+      this.dimensionRenderer.getDimensionsGroup(),
+      this.dimensionRenderer.getPreviewGroup(),
+      this.dimensionRenderer.getGripsGroup(),
+      this.dimensionRenderer.getTrackingLine(),
+      ...this.snappingManager.getHelpers(),
+      ...exclude
+    ]);
+
+    const objects: THREE.Object3D[] = [];
+    const visit = (object: THREE.Object3D) => {
+      if (skip.has(object)) return;
+      if ((object as THREE.Mesh).isMesh || (object as THREE.Line).isLine || (object as THREE.Points).isPoints) objects.push(object);
+      object.children.forEach(visit);
+    };
+    visit(this.scene);
+    return objects;
+  }
+
+  // Makes another plane the active CPlane; ordinate dimensions measured in the old one keep it.
+  // Without `xAxis`, the current X axis is kept, flattened onto the new plane.
+  public setCPlane(origin: THREE.Vector3, normal: THREE.Vector3, xAxis: THREE.Vector3 = this.cplane.xAxis) {
+    this.changeCPlane(createCPlane(origin, normal, xAxis), 'Change CPlane', false);
+  }
+
+  // Moves the active CPlane, taking the ordinate dimensions measured in it along
+  public moveCPlane(origin: THREE.Vector3, normal: THREE.Vector3, xAxis: THREE.Vector3 = this.cplane.xAxis) {
+    this.changeCPlane(createCPlane(origin, normal, xAxis), 'Move CPlane', true);
+  }
+
+  private changeCPlane(after: CPlane, label: string, moveDatums: boolean) {
+    const { origin, normal, xAxis } = this.cplane;
+    if (after.origin.equals(origin) && after.normal.equals(normal) && after.xAxis.equals(xAxis)) return; // No undo step for no change
+    const before = createCPlane(origin, normal, xAxis);
+
+    this.history.execute({
+      label,
+      execute: () => this.applyCPlane(after, moveDatums),
+      undo: () => this.applyCPlane(before, moveDatums)
+    });
+  }
+
+  private applyCPlane(cplane: CPlane, moveDatums: boolean) {
+    if (moveDatums) this.dimensionRenderer.moveDatum(this.cplane, cplane);
+    this.cplane.origin.copy(cplane.origin);
+    this.cplane.normal.copy(cplane.normal);
+    this.cplane.xAxis.copy(cplane.xAxis);
+    this.dispatchEvent({ type: 'cplaneChange', cplane: this.cplane });
+  }
+
+  // Undoable version of DimensionRenderer.setStyle
+  public setStyle(style: Partial<DimensionStyle>) {
+    const renderer = this.dimensionRenderer;
+    const before: Partial<DimensionStyle> = {};
+    for (const key of Object.keys(style) as (keyof DimensionStyle)[]) {
+      copyStyleKey(before, renderer.style, key);
+    }
+
+    this.history.execute({
+      label: 'Change Style',
+      execute: () => renderer.setStyle(style),
+      undo: () => renderer.setStyle(before)
+    });
+  }
+
+  public undo(): boolean {
+    this.cancel();
+    const undone = this.history.undo();
+    if (undone) this.prompt('Undo');
+    return undone;
+  }
+
+  public redo(): boolean {
+    this.cancel();
+    const redone = this.history.redo();
+    if (redone) this.prompt('Redo');
+    return redone;
   }
   
   public setCPlaneToWorld() {
-    this.setCPlane(new THREE.Vector3(0, 0, 0), new THREE.Vector3(0, 1, 0));
+    this.setCPlane(new THREE.Vector3(0, 0, 0), new THREE.Vector3(0, 1, 0), new THREE.Vector3(1, 0, 0));
   }
   
   public setCPlaneToView() {
@@ -51,47 +255,261 @@ export class DimensionSystem {
     
     // Place origin 10 units in front of camera
     const origin = this.camera.position.clone().add(this.camera.getWorldDirection(new THREE.Vector3()).multiplyScalar(10));
+    const right = new THREE.Vector3().setFromMatrixColumn(this.camera.matrixWorld, 0); // Screen X
     
-    this.setCPlane(origin, normal);
+    this.setCPlane(origin, normal, right);
   }
   
   public startDefineCPlane() {
     this.reset();
     this.state = 'defining_cplane_p1';
-    console.log('Define CPlane: Click Origin');
+    this.prompt('Define CPlane: Click Origin');
   }
 
   public startDefineCPlaneFromFace() {
     this.reset();
     this.state = 'defining_cplane_face';
-    console.log('Define CPlane: Click a Mesh Face');
+    this.prompt('Define CPlane: Click a Mesh Face');
   }
 
   public startTranslateCPlane() {
     this.reset();
     this.state = 'translating_cplane';
-    console.log('Translate CPlane: Click new origin point');
+    this.prompt('Translate CPlane: Click new origin point');
+  }
+
+  // --- Named CPlanes ---
+
+  public getCPlaneNames(): string[] {
+    return [...this.cplaneLibrary.keys()];
+  }
+
+  // A copy of the saved CPlane
+  public getSavedCPlane(name: string): CPlane | undefined {
+    const cplane = this.cplaneLibrary.get(name);
+    return cplane ? createCPlane(cplane.origin, cplane.normal, cplane.xAxis) : undefined;
+  }
+
+  // Saves the active CPlane under `name`, replacing any CPlane saved with that name
+  public saveCPlane(name: string): boolean {
+    if (!name.trim()) return false;
+    const { origin, normal, xAxis } = this.cplane;
+    const before = this.cplaneLibrary;
+    const after = new Map(before).set(name, createCPlane(origin, normal, xAxis));
+    this.history.execute({
+      label: 'Save CPlane',
+      execute: () => this.applyCPlaneLibrary(after),
+      undo: () => this.applyCPlaneLibrary(before)
+    });
+    this.prompt(`CPlane saved as "${name}"`);
+    return true;
+  }
+
+  // Makes a saved CPlane the active one. Only the active frame switches: dimensions measured
+  // in the previous CPlane keep it, on undo and redo too.
+  public restoreCPlane(name: string): boolean {
+    const cplane = this.cplaneLibrary.get(name);
+    if (!cplane) return false;
+    this.changeCPlane(createCPlane(cplane.origin, cplane.normal, cplane.xAxis), 'Restore CPlane', false);
+    this.prompt(`CPlane "${name}" restored`);
+    return true;
+  }
+
+  public renameCPlane(name: string, newName: string): boolean {
+    if (!this.cplaneLibrary.has(name) || !newName.trim() || this.cplaneLibrary.has(newName)) return false;
+    const before = this.cplaneLibrary;
+    // Keep its place in the list
+    const after = new Map([...before].map(([key, cplane]): [string, CPlane] => [key === name ? newName : key, cplane]));
+    this.history.execute({
+      label: 'Rename CPlane',
+      execute: () => this.applyCPlaneLibrary(after),
+      undo: () => this.applyCPlaneLibrary(before)
+    });
+    return true;
+  }
+
+  public deleteCPlane(name: string): boolean {
+    if (!this.cplaneLibrary.has(name)) return false;
+    const before = this.cplaneLibrary;
+    const after = new Map(before);
+    after.delete(name);
+    this.history.execute({
+      label: 'Delete CPlane',
+      execute: () => this.applyCPlaneLibrary(after),
+      undo: () => this.applyCPlaneLibrary(before)
+    });
+    return true;
+  }
+
+  // Library maps are never changed in place, so undo can hold on to the old one
+  private applyCPlaneLibrary(library: Map<string, CPlane>) {
+    this.cplaneLibrary = library;
+    this.dispatchEvent({ type: 'cplaneLibraryChange', names: this.getCPlaneNames() });
+  }
+
+  // --- Serialization ---
+
+  public toJSON(): DimensionSetJSON {
+    return {
+      version: SERIALIZATION_VERSION,
+      style: { ...this.dimensionRenderer.style },
+      cplane: serializeCPlane(this.cplane),
+      cplanes: serializeNamedCPlanes(this.cplaneLibrary),
+      dimensions: this.dimensionRenderer.getDimensions().map(serializeDimension)
+    };
+  }
+
+  // Replaces the current dimensions, style, CPlane and saved CPlanes with the saved set.
+  // Malformed entries are skipped and reported instead of aborting the whole load.
+  public fromJSON(json: string | unknown): DimensionImportResult {
+    const result: DimensionImportResult = { imported: 0, errors: [] };
+
+    let value = json;
+    if (typeof json === 'string') {
+      try {
+        value = JSON.parse(json);
+      } catch (e) {
+        result.errors.push(`Invalid JSON: ${(e as Error).message}`);
+        return result;
+      }
+    }
+
+    if (typeof value !== 'object' || value === null) {
+      result.errors.push('Expected a dimension set object');
+      return result;
+    }
+    const set = value as Record<string, unknown>;
+    if (typeof set.version !== 'number') {
+      result.errors.push('Missing schema version');
+      return result;
+    }
+    if (set.version > SERIALIZATION_VERSION) {
+      result.errors.push(`Unsupported schema version ${set.version} (expected ${SERIALIZATION_VERSION} or lower)`);
+      return result;
+    }
+
+    // Anchored objects are looked up by uuid, then by name (uuids change when a scene is rebuilt)
+    const resolveObject = (uuid: string, name?: string) =>
+      this.scene.getObjectByProperty('uuid', uuid) ?? (name ? this.scene.getObjectByName(name) : undefined);
+
+    const dimensions: DimensionData[] = [];
+    if (Array.isArray(set.dimensions)) {
+      set.dimensions.forEach((entry, i) => {
+        const data = parseDimension(entry, `dimensions[${i}]`, result.errors, resolveObject);
+        if (data) dimensions.push(data);
+      });
+    } else if (set.dimensions !== undefined) {
+      result.errors.push('dimensions: not an array');
+    }
+
+    const style = parseStyle(set.style, result.errors);
+    const cplane = parseCPlane(set.cplane, result.errors);
+    const cplaneLibrary = set.cplanes !== undefined ? parseNamedCPlanes(set.cplanes, result.errors) : null;
+
+    this.cancel();
+    this.dimensionRenderer.setStyle(style);
+    if (cplane) this.applyCPlane(cplane, false);
+    if (cplaneLibrary) this.applyCPlaneLibrary(cplaneLibrary);
+    this.dimensionRenderer.loadDimensions(dimensions);
+    this.history.clear(); // Old commands refer to dimensions that no longer exist
+
+    result.imported = dimensions.length;
+    if (this.debug && result.errors.length > 0) console.warn('Dimension import skipped entries:', result.errors);
+    return result;
+  }
+
+  // Call this from main app every frame, so associative dimensions follow their geometry
+  public update() {
+    // Don't let an anchor pull a grip back while it is being dragged
+    if (this.state !== 'dragging_grip') {
+      this.dimensionRenderer.updateAssociations();
+    }
+    this.dimensionRenderer.updateLabels(this.camera);
+    this.dimensionRenderer.updateScreenSizes(this.camera, this.renderer.getSize(new THREE.Vector2()).y);
+  }
+
+  public startSelect() {
+    this.reset();
+    this.state = 'selecting';
+    this.prompt('Select: Click a dimension');
+  }
+
+  public deleteSelected() {
+    const id = this.dimensionRenderer.getSelectedId();
+    if (id === null || this.state === 'dragging_grip') return;
+
+    // A string is deleted as a whole
+    const renderer = this.dimensionRenderer;
+    const members = renderer.getGroupMembers(id).map(data => ({ data, index: renderer.getDimensions().indexOf(data) }));
+    this.history.execute({
+      label: 'Delete Dimension',
+      execute: () => members.forEach(m => renderer.removeDimension(m.data.id)),
+      undo: () => members.forEach(m => renderer.insertDimension(m.data, m.index))
+    });
+    this.state = 'selecting';
+    this.prompt('Dimension deleted.');
+  }
+
+  // Removes every dimension as one undoable step
+  public clear() {
+    this.cancel();
+    const renderer = this.dimensionRenderer;
+    const dimensions = [...renderer.getDimensions()];
+    if (dimensions.length === 0) return;
+    this.history.execute({
+      label: 'Clear Dimensions',
+      execute: () => renderer.clear(),
+      undo: () => dimensions.forEach((data, index) => renderer.insertDimension(data, index))
+    });
+    this.prompt('Dimensions cleared.');
   }
 
   // Call this from main app on mouse move
-  public onMouseMove(mouse: THREE.Vector2, objects: THREE.Object3D[], cplaneHelper: { update: (c: CPlane) => void }) {
-    const snap = this.snappingManager.getSnapPoint(mouse, objects);
+  // `objects` defaults to the snapping manager's registry
+  public onMouseMove(mouse: THREE.Vector2, objects?: THREE.Object3D[], cplaneHelper?: { update: (c: CPlane) => void }) {
+    if (this.state === 'selecting' || this.state === 'selected') return;
+
+    this.lastMouse.copy(mouse);
+    this.lastObjects = objects;
+    const snap = this.getSnap(mouse, objects);
+
+    if (this.state === 'dragging_grip') {
+      const point = this.getPoint(snap, mouse, this.dragOrigin || undefined);
+      this.applyGripDrag(point);
+      return;
+    }
+
+    if (this.state === 'drawing_polygon') {
+      const point = this.getPoint(snap, mouse, this.polygonPoints[0]);
+      const points = this.getAreaPolygon([...this.polygonPoints, point]);
+      if (points) {
+        const center = getTrianglesCentroid(triangulatePolygon(points, bestFitPlane(points)!.normal));
+        this.dimensionRenderer.updatePreview('area', center, center, center, undefined, undefined, { points });
+      } else {
+        this.dimensionRenderer.updatePreview('linear', this.polygonPoints[this.polygonPoints.length - 1], point, point);
+      }
+      return;
+    }
+
+    if (this.state === 'continuing') {
+      const point = this.getPoint(snap, mouse, this.stringMembers[0].start);
+      const next = this.getNextStringSegment();
+      this.dimensionRenderer.updatePreview(this.stringMembers[0].type, next.start, point, next.offsetPoint, undefined, undefined, { axis: next.axis });
+      return;
+    }
+
     // Use startPoint as reference for subsequent steps to keep drawing coplanar/parallel
-    const currentPoint = snap ? snap.point : this.getRayPoint(mouse, this.startPoint || undefined);
+    const currentPoint = this.getPoint(snap, mouse, this.startPoint || undefined);
     
     // Preview logic
     if (!currentPoint) return;
     
-    // CPlane Definition Preview
-    if (this.state === 'translating_cplane') {
-      const tempCPlane: CPlane = { origin: currentPoint, normal: this.cplane.normal };
-      cplaneHelper.update(tempCPlane);
+    // CPlane Definition Preview: the plane a click here would give
+    if (this.state === 'translating_cplane' || this.state.startsWith('defining_cplane')) {
+      const candidate = this.getCPlanePreview(currentPoint, mouse, objects);
+      if (candidate) cplaneHelper?.update(candidate);
       return;
     }
-    if (this.state.startsWith('defining_cplane')) {
-       // Future: Show a preview of the CPlane as it's being defined
-       return;
-    }
 
     if (this.mode === 'leader') {
       if (this.state === 'drawing' && this.startPoint) {
@@ -109,84 +527,175 @@ export class DimensionSystem {
       } else if (this.state === 'offsetting' && this.startPoint && this.endPoint && this.angleP2) {
          this.dimensionRenderer.updatePreview('angle', this.startPoint, this.endPoint, currentPoint, this.angleP2);
       }
+    } else if (this.mode === 'ordinate') {
+      if (this.state === 'offsetting' && this.startPoint) {
+        this.dimensionRenderer.updatePreview('ordinate', this.startPoint, this.startPoint, currentPoint, undefined, undefined, {
+          datum: this.cplane,
+          ordinateAxis: this.resolveOrdinateAxis(this.startPoint, currentPoint)
+        });
+      }
+    } else if (this.mode === 'radius' || this.mode === 'diameter') {
+      if (this.state === 'drawing' && this.startPoint) {
+        this.dimensionRenderer.updatePreview('aligned', this.startPoint, currentPoint, currentPoint);
+      } else if (this.state === 'drawing_circle_p3' && this.startPoint && this.endPoint) {
+        const circle = circleFromThreePoints(this.startPoint, this.endPoint, currentPoint);
+        if (circle) this.previewRadial(circle, currentPoint);
+      } else if (this.state === 'offsetting' && this.circle) {
+        this.previewRadial(this.circle, currentPoint);
+      }
     } else {
       // Linear / Aligned
       if (this.state === 'drawing' && this.startPoint) {
         this.dimensionRenderer.updatePreview('linear', this.startPoint, currentPoint, currentPoint);
       } 
       else if (this.state === 'offsetting' && this.startPoint && this.endPoint) {
-         this.dimensionRenderer.updatePreview('linear', this.startPoint, this.endPoint, currentPoint);
+         this.dimensionRenderer.updatePreview(this.mode, this.startPoint, this.endPoint, currentPoint, undefined, undefined, {
+           axis: this.mode === 'linear' ? this.resolveLinearAxis(this.startPoint, this.endPoint, currentPoint) : undefined
+         });
       }
     }
   }
 
   // Call this from main app on click
-  public onClick(mouse: THREE.Vector2, objects: THREE.Object3D[]) {
-    const snap = this.snappingManager.getSnapPoint(mouse, objects);
+  public onClick(mouse: THREE.Vector2, objects?: THREE.Object3D[]) {
+    // A click while typing places the typed point, as Enter would; unreadable text is dropped
+    if (this.numericInput && !this.typedSnap) {
+      if (this.typedPoint && this.canEnterNumeric()) {
+        this.commitNumericInput();
+        return;
+      }
+      this.numericInput = '';
+      this.dimensionRenderer.setReadout(null);
+    }
+
+    // Selection Logic
+    if (this.state === 'selecting' || this.state === 'selected') {
+      this.pickRaycaster.setFromCamera(mouse, this.camera);
+
+      if (this.state === 'selected') {
+        const grip = this.dimensionRenderer.pickGrip(this.pickRaycaster);
+        if (grip) {
+          const id = this.dimensionRenderer.getSelectedId()!;
+          const data = this.dimensionRenderer.getDimension(id)!;
+          this.dragGrip = grip;
+          this.dragOrigin = data[grip]!.clone();
+          this.dragSnapshot = this.snapshot(this.dimensionRenderer.getGroupMembers(id));
+          this.dimensionRenderer.setActiveGrip(grip);
+          this.state = 'dragging_grip';
+          this.prompt('Grip picked. Click to place it.');
+          return;
+        }
+      }
+
+      const id = this.dimensionRenderer.pickDimension(this.pickRaycaster);
+      this.dimensionRenderer.setSelected(id);
+      this.state = id !== null ? 'selected' : 'selecting';
+      this.prompt(id !== null ? 'Dimension selected. Click a grip to edit it.' : 'Select: Click a dimension');
+      return;
+    }
+
+    const snap = this.getSnap(mouse, objects);
+
+    if (this.state === 'dragging_grip') {
+      const point = this.getPoint(snap, mouse, this.dragOrigin || undefined);
+      const before = this.dragSnapshot!;
+
+      // The offset point is always free; other points take the association of the new snap
+      this.applyGripDrag(point, this.toAnchor(snap));
+      const after = this.snapshot(before.map(b => this.dimensionRenderer.getDimension(b.id)!));
+
+      this.history.push({
+        label: 'Edit Dimension',
+        execute: () => this.restoreSnapshot(after),
+        undo: () => this.restoreSnapshot(before)
+      });
+      this.dimensionRenderer.setActiveGrip(null);
+      this.dragGrip = null;
+      this.dragOrigin = null;
+      this.dragSnapshot = null;
+      this.state = 'selected';
+      this.prompt('Grip moved.');
+      return;
+    }
     
     // CPlane Definition Logic
     if (this.state === 'translating_cplane') {
-      const point = snap ? snap.point : this.getRayPoint(mouse);
+      const point = this.getPoint(snap, mouse);
       if (!point) return; 
-      this.setCPlane(point, this.cplane.normal);
-      console.log('CPlane Translated');
+      this.moveCPlane(point, this.cplane.normal);
       this.reset();
+      this.prompt('CPlane Translated');
       return;
     }
 
     if (this.state === 'defining_cplane_face') {
-       // Use raw raycaster to find face
-       const raycaster = new THREE.Raycaster();
-       raycaster.setFromCamera(mouse, this.camera);
-       const intersects = raycaster.intersectObjects(objects, true);
-       
-       if (intersects.length > 0) {
-         const hit = intersects[0];
-         if (hit.face) {
-           const normal = hit.face.normal.clone().applyNormalMatrix(new THREE.Matrix3().getNormalMatrix(hit.object.matrixWorld));
-           // We use hit point as origin
-           this.setCPlane(hit.point, normal);
-           console.log('CPlane Set to Face');
-           this.reset();
-           return;
-         }
+       const cplane = this.getFaceCPlane(mouse, objects);
+       if (cplane) {
+         this.setCPlane(cplane.origin, cplane.normal, cplane.xAxis);
+         this.reset();
+         this.prompt('CPlane Set to Face');
        }
        return;
     }
 
+    // Same point as the preview shows: the snap, or the free / grid point on the CPlane
     if (this.state === 'defining_cplane_p1') {
-      if (!snap) return;
-      this.startPoint = snap.point.clone();
+      this.startPoint = this.getPoint(snap, mouse);
       this.state = 'defining_cplane_p2';
-      console.log('CPlane Origin Set. Click X-Axis Direction.');
+      this.prompt('CPlane Origin Set. Click X-Axis Direction.');
       return;
     }
     if (this.state === 'defining_cplane_p2') {
-      if (!snap) return;
-      this.endPoint = snap.point.clone();
-      if (this.startPoint!.distanceTo(this.endPoint) < 0.001) return;
+      const point = this.getPoint(snap, mouse, this.startPoint!);
+      if (this.startPoint!.distanceTo(point) < 0.001) return;
+      this.endPoint = point;
       this.state = 'defining_cplane_p3';
-      console.log('CPlane X-Axis Set. Click Y-Axis Direction (Plane).');
+      this.prompt('CPlane X-Axis Set. Click Y-Axis Direction (Plane).');
       return;
     }
     if (this.state === 'defining_cplane_p3') {
-      if (!snap) return;
-      const p3 = snap.point.clone();
-      
-      // Calculate Normal from P1, P2, P3
-      const v1 = new THREE.Vector3().subVectors(this.endPoint!, this.startPoint!).normalize(); // X Axis
-      const v2 = new THREE.Vector3().subVectors(p3, this.startPoint!).normalize();
-      const normal = new THREE.Vector3().crossVectors(v1, v2).normalize();
-      
-      if (normal.lengthSq() < 0.001) {
-        console.warn('Points are collinear, cannot define plane');
+      const point = this.getPoint(snap, mouse, this.startPoint!);
+      const cplane = this.getThreePointCPlane(this.startPoint!, this.endPoint!, point);
+      if (!cplane) {
         this.reset();
+        this.prompt('Points are collinear, cannot define plane', true);
         return;
       }
       
-      this.setCPlane(this.startPoint!, normal);
-      console.log('CPlane Defined');
+      this.setCPlane(cplane.origin, cplane.normal, cplane.xAxis);
       this.reset();
+      this.prompt('CPlane Defined');
+      return;
+    }
+
+    // Radius / Diameter: pick a circular edge, or three points on the circle
+    if ((this.mode === 'radius' || this.mode === 'diameter') && this.state !== 'offsetting') {
+      this.onRadialClick(snap);
+      return;
+    }
+
+    if (this.mode === 'area' && (this.state === 'idle' || this.state === 'drawing_polygon')) {
+      this.onAreaClick(mouse, snap, objects);
+      return;
+    }
+
+    if (this.state === 'continuing') {
+      // Next segment of a string - MUST Snap
+      if (!snap) return;
+      const next = this.getNextStringSegment();
+      if (next.start.distanceTo(snap.point) < 0.001) return;
+
+      const first = this.stringMembers[0];
+      const anchors: DimensionAnchors = { start: next.startAnchor, end: this.toAnchor(snap) ?? undefined };
+      const data = this.dimensionRenderer.createDimension(first.type, next.start, snap.point, next.offsetPoint, undefined, undefined, {
+        anchors,
+        axis: next.axis,
+        groupId: first.groupId,
+        style: first.style
+      });
+      this.recordCreate(data);
+      this.stringMembers.push(data);
+      this.prompt('Segment added. Click next point, Esc to finish.');
       return;
     }
 
@@ -195,8 +704,14 @@ export class DimensionSystem {
       if (!snap) return;
       
       this.startPoint = snap.point.clone();
+      this.anchors.start = this.toAnchor(snap) ?? undefined;
+      if (this.mode === 'ordinate') {
+        this.state = 'offsetting';
+        this.prompt('Point set. Click to place the label.');
+        return;
+      }
       this.state = 'drawing';
-      console.log('Dimension Started. Click next point.');
+      this.prompt('Dimension Started. Click next point.');
     } 
     else if (this.state === 'drawing') {
       // 2. Set Second Point 
@@ -204,70 +719,658 @@ export class DimensionSystem {
       // Leader: Can be free (Elbow).
       
       if (this.mode === 'leader') {
-         const point = snap ? snap.point : this.getRayPoint(mouse, this.startPoint || undefined);
+         const point = this.getPoint(snap, mouse, this.startPoint || undefined);
          if (!point) return;
          this.endPoint = point.clone(); // Elbow
+         this.anchors.end = this.toAnchor(snap) ?? undefined;
          this.state = 'offsetting';
-         console.log('Elbow set. Click extension end.');
+         this.prompt('Elbow set. Click extension end.');
       } else {
         // Must Snap
         if (!snap) return;
         this.endPoint = snap.point.clone();
         // Check degenerate
         if (this.startPoint!.distanceTo(this.endPoint) < 0.001) return;
+        this.anchors.end = this.toAnchor(snap) ?? undefined;
 
         if (this.mode === 'angle') {
           this.state = 'drawing_angle_p2';
-          console.log('Arm 1 set. Click Arm 2.');
+          this.prompt('Arm 1 set. Click Arm 2.');
         } else {
           this.state = 'offsetting';
-          console.log('End point set. Click to place dimension line.');
+          this.prompt('End point set. Click to place dimension line.');
         }
       }
     }
     else if (this.state === 'drawing_angle_p2') {
       // Angle Mode: Set Arm 2 - Can be free space
-      const point = snap ? snap.point : this.getRayPoint(mouse, this.startPoint || undefined);
+      const point = this.getPoint(snap, mouse, this.startPoint || undefined);
       if (!point) return;
       
       this.angleP2 = point.clone();
        // Check degenerate
       if (this.startPoint!.distanceTo(this.angleP2) < 0.001) return;
+      this.anchors.angleP2 = this.toAnchor(snap) ?? undefined;
       
       this.state = 'offsetting';
-      console.log('Arm 2 set. Click to place angle arc.');
+      this.prompt('Arm 2 set. Click to place angle arc.');
     }
     else if (this.state === 'offsetting') {
       // Finalize - Can be free space
-      const point = snap ? snap.point : this.getRayPoint(mouse, this.startPoint || undefined);
+      const point = this.getPoint(snap, mouse, this.startPoint || undefined);
       if (!point) return;
 
-      if (this.mode === 'leader') {
-         // Prompt for text
-         const text = window.prompt("Enter leader text:", "Note");
-         if (text !== null) {
-           this.dimensionRenderer.createDimension('leader', this.startPoint!, this.endPoint!, point, undefined, text);
-         }
+      if ((this.mode === 'radius' || this.mode === 'diameter') && this.circle) {
+         const { center, normal } = this.circle;
+         this.recordCreate(this.dimensionRenderer.createDimension(this.mode, center, this.getRadialEnd(this.circle, point), point, undefined, undefined, { normal }));
+      } else if (this.mode === 'ordinate') {
+         this.recordCreate(this.dimensionRenderer.createDimension('ordinate', this.startPoint!, this.startPoint!, point, undefined, undefined, {
+           anchors: this.anchors,
+           datum: this.cplane,
+           ordinateAxis: this.resolveOrdinateAxis(this.startPoint!, point)
+         }));
+      } else if (this.mode === 'leader') {
+         // Ask for the text; the leader is created once it arrives
+         this.requestLeaderText(point);
+         return;
       } else {
-         this.dimensionRenderer.createDimension(this.mode, this.startPoint!, this.endPoint!, point, this.angleP2 || undefined);
+         const axis = this.mode === 'linear' ? this.resolveLinearAxis(this.startPoint!, this.endPoint!, point) : undefined;
+         const startsString = this.stringMode !== 'single' && (this.mode === 'linear' || this.mode === 'aligned');
+         const data = this.dimensionRenderer.createDimension(this.mode, this.startPoint!, this.endPoint!, point, this.angleP2 || undefined, undefined, {
+           anchors: this.anchors,
+           axis,
+           groupId: startsString ? this.dimensionRenderer.createGroupId() : undefined
+         });
+         this.recordCreate(data);
+
+         if (startsString) {
+           this.dimensionRenderer.clearPreview();
+           this.reset();
+           this.stringMembers = [data];
+           this.state = 'continuing';
+           this.prompt('Dimension created. Click next point, Esc to finish the string.');
+           return;
+         }
       }
       
       this.dimensionRenderer.clearPreview();
       this.reset();
-      console.log('Dimension created.');
+      this.prompt('Dimension created.');
+    }
+  }
+
+  // Origin at p1, X axis towards p2, Y axis on p3's side. Null if the points are collinear.
+  private getThreePointCPlane(p1: THREE.Vector3, p2: THREE.Vector3, p3: THREE.Vector3): CPlane | null {
+    const v1 = new THREE.Vector3().subVectors(p2, p1).normalize(); // X Axis
+    const v2 = new THREE.Vector3().subVectors(p3, p1).normalize();
+    const normal = new THREE.Vector3().crossVectors(v1, v2);
+    return normal.lengthSq() < 0.001 ? null : createCPlane(p1, normal, v1);
+  }
+
+  // The face under the cursor, with the hit point as origin and the current X axis flattened onto it
+  private getFaceCPlane(mouse: THREE.Vector2, objects?: THREE.Object3D[]): CPlane | null {
+    // Raycast for the face itself, not a snap
+    const hit = this.snappingManager.raycast(mouse, objects);
+    if (!hit?.face) return null;
+    const normal = hit.face.normal.clone().applyNormalMatrix(new THREE.Matrix3().getNormalMatrix(hit.object.matrixWorld));
+    return createCPlane(hit.point, normal, this.cplane.xAxis);
+  }
+
+  // The CPlane being translated or defined, as it would be if `point` were clicked
+  private getCPlanePreview(point: THREE.Vector3, mouse: THREE.Vector2, objects?: THREE.Object3D[]): CPlane | null {
+    const { normal, xAxis } = this.cplane;
+    switch (this.state) {
+      case 'translating_cplane':
+      case 'defining_cplane_p1':
+        return createCPlane(point, normal, xAxis);
+      case 'defining_cplane_p2': {
+        // X towards the cursor, tilting the current plane as little as possible
+        const x = new THREE.Vector3().subVectors(point, this.startPoint!);
+        if (x.lengthSq() < 1e-6) return null;
+        const tilted = normal.clone().projectOnPlane(x.normalize());
+        return tilted.lengthSq() < 1e-6 ? null : createCPlane(this.startPoint!, tilted, x);
+      }
+      case 'defining_cplane_p3':
+        return this.getThreePointCPlane(this.startPoint!, this.endPoint!, point);
+      case 'defining_cplane_face':
+        return this.getFaceCPlane(mouse, objects);
+      default:
+        return null;
     }
   }
   
+  private onRadialClick(snap: SnapResult | null) {
+    // Every point must snap
+    if (!snap) return;
+
+    if (this.state === 'idle') {
+      // A click on a circular edge (e.g. a cylinder rim) gives the circle directly
+      const association = snap.association;
+      if (association && (association.type === 'edge' || association.type === 'midpoint')) {
+        const circle = findCircularEdgeLoop(association.object, association.indices[0], association.indices[1]);
+        if (circle) {
+          this.circle = circle;
+          this.state = 'offsetting';
+          this.prompt('Circle detected. Click to place the label.');
+          return;
+        }
+      }
+
+      this.startPoint = snap.point.clone();
+      this.state = 'drawing';
+      this.prompt('Circle point 1 set. Click point 2.');
+    }
+    else if (this.state === 'drawing') {
+      if (this.startPoint!.distanceTo(snap.point) < 0.001) return;
+      this.endPoint = snap.point.clone();
+      this.state = 'drawing_circle_p3';
+      this.prompt('Circle point 2 set. Click point 3.');
+    }
+    else if (this.state === 'drawing_circle_p3') {
+      const circle = circleFromThreePoints(this.startPoint!, this.endPoint!, snap.point);
+      if (!circle) {
+        this.prompt('Points are collinear, cannot fit a circle', true);
+        return;
+      }
+      this.circle = circle;
+      this.state = 'offsetting';
+      this.prompt('Circle set. Click to place the label.');
+    }
+  }
+
+  private async requestLeaderText(textPoint: THREE.Vector3) {
+    const start = this.startPoint!.clone();
+    const elbow = this.endPoint!.clone();
+    const anchors = { ...this.anchors };
+    this.dimensionRenderer.updatePreview('leader', start, elbow, textPoint);
+
+    this.state = 'editing_text';
+    this.prompt('Type the leader text. Enter to finish, Shift+Enter for a new line.');
+    const text = await this.requestText({ initialText: 'Note', position: textPoint });
+    if (text === undefined) return; // Cancelled from outside, e.g. Esc or a mode switch
+
+    this.dimensionRenderer.clearPreview();
+    this.reset();
+    if (text) {
+      this.recordCreate(this.dimensionRenderer.createDimension('leader', start, elbow, textPoint, undefined, text, { anchors }));
+      this.prompt('Dimension created.');
+    } else {
+      this.prompt('Leader cancelled.');
+    }
+  }
+
+  // Edit the text of the selected leader; undoable
+  public async editSelectedText() {
+    const id = this.dimensionRenderer.getSelectedId();
+    const data = id !== null ? this.dimensionRenderer.getDimension(id) : undefined;
+    if (!data || data.type !== 'leader' || this.state !== 'selected') return;
+
+    this.prompt('Edit the text. Enter to finish, Shift+Enter for a new line.');
+    const before = data.text;
+    const after = await this.requestText({ initialText: before ?? '', position: data.offsetPoint, dimension: data });
+    if (after === undefined) return;
+
+    if (after && after !== before) {
+      this.history.execute({
+        label: 'Edit Text',
+        execute: () => this.dimensionRenderer.setDimensionText(data.id, after),
+        undo: () => this.dimensionRenderer.setDimensionText(data.id, before)
+      });
+      this.prompt('Text changed.');
+    } else {
+      this.prompt('Dimension selected. Click a grip to edit it.');
+    }
+  }
+
+  // Whether text is being typed (leader text or an edit), e.g. so a click that ends it isn't also a pick
+  public isEditingText(): boolean {
+    return this.textRequest !== null;
+  }
+
+  // Runs the text input provider. Resolves with null if the user cancelled the input,
+  // undefined if the request was aborted (reset) meanwhile.
+  private async requestText(request: { initialText: string; position: THREE.Vector3; dimension?: DimensionData }): Promise<string | null | undefined> {
+    this.textRequest?.abort();
+    const controller = new AbortController();
+    this.textRequest = controller;
+
+    let text: string | null;
+    try {
+      text = await this.textInputProvider({ ...request, camera: this.camera, signal: controller.signal });
+    } catch (e) {
+      this.prompt(`Text input failed: ${(e as Error).message}`, true);
+      text = null;
+    }
+
+    if (controller.signal.aborted) return undefined;
+    this.textRequest = null;
+    return text;
+  }
+
+  private onAreaClick(mouse: THREE.Vector2, snap: SnapResult | null, objects?: THREE.Object3D[]) {
+    if (this.areaSource === 'face') {
+      // Raycast for the face itself, not a snap
+      const hit = this.snappingManager.raycast(mouse, objects);
+      if (!hit || hit.faceIndex === undefined || hit.faceIndex === null) return;
+
+      const triangles = collectCoplanarFaces(hit.object, hit.faceIndex!, hit.instanceId);
+      if (!triangles) return;
+      const center = getTrianglesCentroid(triangles);
+      this.recordCreate(this.dimensionRenderer.createDimension('area', center, center, center, undefined, undefined, { triangles }));
+      this.prompt('Area created.');
+      return;
+    }
+
+    // Polygon corners - MUST Snap
+    if (!snap) return;
+    const points = this.polygonPoints;
+    if (points.length >= 3 && snap.point.distanceTo(points[0]) < 0.001) {
+      // Clicking the first corner again closes the polygon
+      this.closePolygon();
+      return;
+    }
+    if (points.length > 0 && snap.point.distanceTo(points[points.length - 1]) < 0.001) return;
+
+    points.push(snap.point.clone());
+    this.state = 'drawing_polygon';
+    this.prompt(points.length < 3 ? 'Corner set. Click next corner.' : 'Corner set. Click next corner, the first corner or finish to close.');
+  }
+
+  // Corners flattened onto the area plane, or null if they don't span an area yet
+  private getAreaPolygon(corners: THREE.Vector3[]): THREE.Vector3[] | null {
+    const plane = this.areaPlane === 'cplane' ? this.cplane : bestFitPlane(corners);
+    if (!plane || corners.length < 3) return null;
+    const points = projectOntoPlane(corners, plane);
+    return bestFitPlane(points) ? points : null;
+  }
+
+  private closePolygon() {
+    const points = this.getAreaPolygon(this.polygonPoints);
+    if (!points) {
+      this.prompt('Polygon has no area', true);
+      return;
+    }
+    const center = getTrianglesCentroid(triangulatePolygon(points, bestFitPlane(points)!.normal));
+    this.recordCreate(this.dimensionRenderer.createDimension('area', center, center, center, undefined, undefined, { points }));
+    this.dimensionRenderer.clearPreview();
+    this.reset();
+    this.prompt('Area created.');
+  }
+
+  private previewRadial(circle: Circle, textPoint: THREE.Vector3) {
+    const type = this.mode === 'diameter' ? 'diameter' : 'radius';
+    this.dimensionRenderer.updatePreview(type, circle.center, this.getRadialEnd(circle, textPoint), textPoint, undefined, undefined, { normal: circle.normal });
+  }
+
+  // Point on the circle in the direction of the label
+  private getRadialEnd(circle: Circle, toward: THREE.Vector3): THREE.Vector3 {
+    const dir = new THREE.Vector3().subVectors(toward, circle.center).projectOnPlane(circle.normal);
+    if (dir.lengthSq() < 1e-8) {
+      // Label on the center: any in-plane direction will do
+      dir.set(1, 0, 0).projectOnPlane(circle.normal);
+      if (dir.lengthSq() < 1e-8) dir.set(0, 1, 0).projectOnPlane(circle.normal);
+    }
+    return circle.center.clone().add(dir.normalize().multiplyScalar(circle.radius));
+  }
+
+  // Start point, dimension line position and axis of the next segment of the current string
+  private getNextStringSegment(): { start: THREE.Vector3; startAnchor?: DimensionAnchor; offsetPoint: THREE.Vector3; axis?: THREE.Vector3 } {
+    const first = this.stringMembers[0];
+    const last = this.stringMembers[this.stringMembers.length - 1];
+
+    if (this.stringMode === 'continuous') {
+      // Continue from the last point on the same dimension line
+      return { start: last.end, startAnchor: last.anchors?.end, offsetPoint: last.offsetPoint.clone(), axis: first.axis };
+    }
+
+    // Baseline: measure from the first point again, one row further out per segment.
+    // Rows are the string's style.offset apart, at the world size its text is drawn (so labels don't overlap).
+    const style = this.dimensionRenderer.getStyle(first);
+    const unit = this.dimensionRenderer.getUnitSize(style, first.offsetPoint);
+    const measureDir = first.axis ? first.axis.clone() : new THREE.Vector3().subVectors(first.end, first.start).normalize();
+    const stackDir = new THREE.Vector3().subVectors(first.offsetPoint, first.start);
+    stackDir.sub(measureDir.multiplyScalar(stackDir.dot(measureDir)));
+    if (stackDir.lengthSq() < 1e-8) stackDir.set(0, 1, 0);
+    stackDir.normalize();
+
+    const offsetPoint = first.offsetPoint.clone().add(stackDir.multiplyScalar(style.offset * unit * this.stringMembers.length));
+    return { start: first.start, startAnchor: first.anchors?.start, offsetPoint, axis: first.axis };
+  }
+
+  // Restyle the selected dimension (and the rest of its string); undoable
+  public setSelectedStyle(style: Partial<DimensionStyle>) {
+    const id = this.dimensionRenderer.getSelectedId();
+    if (id === null) return;
+
+    const renderer = this.dimensionRenderer;
+    const before = renderer.getDimension(id)!.style;
+    const after = { ...before, ...style };
+    this.history.execute({
+      label: 'Change Dimension Style',
+      execute: () => renderer.setDimensionStyle(id, after),
+      undo: () => renderer.setDimensionStyle(id, before)
+    });
+  }
+
+  private snapshot(dimensions: DimensionData[]): DimensionSnapshot[] {
+    return dimensions.map(data => {
+      const points: DimensionSnapshot['points'] = {
+        start: data.start.clone(),
+        end: data.end.clone(),
+        offsetPoint: data.offsetPoint.clone()
+      };
+      if (data.angleP2) points.angleP2 = data.angleP2.clone();
+
+      const anchors: DimensionSnapshot['anchors'] = {};
+      for (const key of ANCHOR_KEYS) anchors[key] = data.anchors?.[key] ?? null;
+      return { id: data.id, points, anchors };
+    });
+  }
+
+  private restoreSnapshot(snapshots: DimensionSnapshot[], notify: boolean = true) {
+    for (const { id, points, anchors } of snapshots) {
+      this.dimensionRenderer.updateDimension(id, points, anchors, notify);
+    }
+  }
+
+  // Move the dragged grip to `point`, relative to the state before the drag.
+  // Within a string the dimension line moves as one, and points shared between
+  // members (chain joints, the baseline origin) move together.
+  // `anchor` is applied to the moved points when given (on drop); only the drop tells listeners.
+  private applyGripDrag(point: THREE.Vector3, anchor?: DimensionAnchor | null) {
+    const key = this.dragGrip!;
+    const origin = this.dragOrigin!;
+    const delta = new THREE.Vector3().subVectors(point, origin);
+
+    for (const before of this.dragSnapshot!) {
+      const points: DimensionSnapshot['points'] = {};
+      const anchors: DimensionSnapshot['anchors'] = {};
+
+      if (key === 'offsetPoint') {
+        points.offsetPoint = before.points.offsetPoint!.clone().add(delta);
+      } else {
+        for (const k of ANCHOR_KEYS) {
+          const p = before.points[k];
+          if (!p || p.distanceTo(origin) > 1e-6) continue;
+          points[k] = point.clone();
+          anchors[k] = anchor ?? null;
+        }
+      }
+      const drop = anchor !== undefined;
+      this.dimensionRenderer.updateDimension(before.id, points, drop ? anchors : undefined, drop);
+    }
+  }
+
+  // Record a dimension that has just been created; redo puts it back at the same index
+  private recordCreate(data: DimensionData) {
+    const renderer = this.dimensionRenderer;
+    const index = renderer.getDimensions().indexOf(data);
+    this.history.push({
+      label: 'Create Dimension',
+      execute: () => renderer.insertDimension(data, index),
+      undo: () => renderer.removeDimension(data.id)
+    });
+  }
+
   public cancel() {
+    const wasIdle = this.state === 'idle';
+    this.abort();
+    if (!wasIdle) this.prompt('Cancelled.');
+  }
+
+  // Drops the operation in progress without prompting
+  private abort() {
+    if (this.state === 'dragging_grip') {
+      // Put the grip back where it was; listeners never saw it move
+      this.restoreSnapshot(this.dragSnapshot!, false);
+    }
     this.reset();
     this.dimensionRenderer.clearPreview();
   }
 
+  // Ends a multi-click operation (e.g. a dimension string), keeping what was placed so far
+  public finish() {
+    if (this.state === 'continuing') {
+      this.abort();
+      this.prompt('String finished.');
+    } else if (this.state === 'drawing_polygon' && this.polygonPoints.length >= 3) {
+      this.closePolygon();
+    } else {
+      this.cancel();
+    }
+  }
+
+  // Sets the prompt for the current state and tells listeners
+  private prompt(message: string, warning: boolean = false) {
+    if (this.debug) {
+      if (warning) console.warn(message);
+      else console.log(message);
+    }
+    this.dispatchEvent({ type: 'stateChange', state: this.state, prompt: message });
+  }
+
   private reset() {
     this.state = 'idle';
     this.startPoint = null;
     this.endPoint = null;
     this.angleP2 = null;
+    this.anchors = {};
+    this.circle = null;
+    this.stringMembers = [];
+    this.polygonPoints = [];
+    this.textRequest?.abort();
+    this.textRequest = null;
+    this.dragGrip = null;
+    this.dragOrigin = null;
+    this.dragSnapshot = null;
+    this.numericInput = '';
+    this.typedPoint = null;
+    this.dimensionRenderer.setTrackingLine(null);
+    this.dimensionRenderer.setReadout(null);
+    this.dimensionRenderer.setSelected(null);
+  }
+
+  // Direction a linear dimension between start and end measures along
+  private resolveLinearAxis(start: THREE.Vector3, end: THREE.Vector3, offsetPoint: THREE.Vector3): THREE.Vector3 {
+    const { xAxis, yAxis } = getCPlaneAxes(this.cplane);
+
+    switch (this.linearAxis) {
+      case 'x': return new THREE.Vector3(1, 0, 0);
+      case 'y': return new THREE.Vector3(0, 1, 0);
+      case 'z': return new THREE.Vector3(0, 0, 1);
+      case 'cplane-x': return xAxis;
+      case 'cplane-y': return yAxis;
+    }
+
+    // Auto: dragging the line past the points' extent above/below them gives a
+    // horizontal (X) dimension, dragging it out to the side gives a vertical (Y) one.
+    const ab = new THREE.Vector3().subVectors(end, start);
+    const mid = new THREE.Vector3().addVectors(start, end).multiplyScalar(0.5);
+    const drag = new THREE.Vector3().subVectors(offsetPoint, mid);
+    const outsideX = Math.abs(drag.dot(xAxis)) - Math.abs(ab.dot(xAxis)) / 2;
+    const outsideY = Math.abs(drag.dot(yAxis)) - Math.abs(ab.dot(yAxis)) / 2;
+    const axis = outsideY > outsideX ? xAxis : yAxis;
+
+    // Points stacked along the chosen axis' normal (e.g. a vertical edge on a ground CPlane):
+    // measure along whichever frame axis actually separates them.
+    if (Math.abs(ab.dot(axis)) < 0.001) {
+      const candidates = [xAxis, yAxis, this.cplane.normal.clone().normalize()];
+      return candidates.reduce((best, c) => Math.abs(ab.dot(c)) > Math.abs(ab.dot(best)) ? c : best);
+    }
+    return axis;
+  }
+
+  private resolveOrdinateAxis(start: THREE.Vector3, textPoint: THREE.Vector3): OrdinateAxis {
+    if (this.ordinateAxis !== 'auto') return this.ordinateAxis;
+    const { xAxis, yAxis } = getCPlaneAxes(this.cplane);
+    const leader = new THREE.Vector3().subVectors(textPoint, start);
+    return Math.abs(leader.dot(yAxis)) >= Math.abs(leader.dot(xAxis)) ? 'x' : 'y';
+  }
+
+  private toAnchor(snap: SnapResult | null): DimensionAnchor | null {
+    return snap?.association ? { association: snap.association, orphaned: false } : null;
+  }
+
+  // The snapped point, or else the cursor on the CPlane through `referencePoint`,
+  // constrained to the tracking line when ortho / polar is on, or moved to the typed distance / angle
+  private getPoint(snap: SnapResult | null, mouse: THREE.Vector2, referencePoint?: THREE.Vector3): THREE.Vector3 {
+    if (snap && snap === this.typedSnap) return snap.point.clone();
+
+    const cursor = snap ? snap.point : this.getRayPoint(mouse, referencePoint);
+    const constraint = this.getConstraint(cursor);
+    const point = constraint ? constraint.point : cursor;
+
+    const typed = this.numericInput ? this.getTypedPoint(point) : null;
+    this.typedPoint = typed;
+    this.dimensionRenderer.setReadout(this.numericInput || null, typed ?? point);
+    if (typed) {
+      this.dimensionRenderer.setTrackingLine(this.getOrthoBase(), typed);
+      return typed;
+    }
+
+    if (!constraint) {
+      this.dimensionRenderer.setTrackingLine(null);
+      return point;
+    }
+
+    // Show the line a bit past the point
+    const { base, direction } = constraint;
+    const length = point.distanceTo(base);
+    this.dimensionRenderer.setTrackingLine(base, point.clone().addScaledVector(direction, Math.max(length * 0.5, 1)));
+    return point;
+  }
+
+  // Whether typed distances / angles apply now: a point is being placed relative to an earlier one
+  public canEnterNumeric(): boolean {
+    if (['idle', 'selecting', 'selected', 'editing_text'].includes(this.state) || this.state.startsWith('defining_cplane')) return false;
+    return this.getOrthoBase() !== null;
+  }
+
+  public getNumericInput(): string {
+    return this.numericInput;
+  }
+
+  // Sets the typed text and redraws the preview at the point it gives
+  public setNumericInput(text: string) {
+    if (text === this.numericInput) return;
+    const hadInput = this.numericInput !== '';
+    this.numericInput = this.canEnterNumeric() ? text : '';
+    if (this.numericInput) this.prompt(`Typed: ${this.numericInput}. Enter to apply, Esc to clear.`);
+    else if (hadInput) this.prompt('Typed value cleared.');
+    this.onMouseMove(this.lastMouse, this.lastObjects);
+  }
+
+  // Places the next point at the typed distance / angle as if it had been clicked
+  public commitNumericInput(): boolean {
+    const point = this.numericInput && this.canEnterNumeric() ? this.typedPoint : null;
+    if (!point) {
+      this.prompt(`Can't read "${this.numericInput}" as a distance or angle`, true);
+      return false;
+    }
+
+    this.numericInput = '';
+    this.typedPoint = null;
+    this.dimensionRenderer.setReadout(null);
+    this.typedSnap = { point, type: 'none', distance: 0, object: this.scene };
+    try {
+      this.onClick(this.lastMouse, this.lastObjects);
+    } finally {
+      this.typedSnap = null;
+    }
+    this.onMouseMove(this.lastMouse, this.lastObjects);
+    return true;
+  }
+
+  // The point the typed text gives, or null if it can't be read. "d" goes d along the direction
+  // from the last point to `cursor`, "d<a" goes d at a degrees from the CPlane X axis, and "<a"
+  // keeps the cursor's distance at that angle. For an angle dimension's second arm, "<a" (or "d<a")
+  // turns the first arm by a toward the cursor side.
+  private getTypedPoint(cursor: THREE.Vector3): THREE.Vector3 | null {
+    const base = this.getOrthoBase();
+    if (!base) return null;
+
+    const parts = this.numericInput.split('<');
+    if (parts.length > 2) return null;
+    const [lengthText, angleText] = parts;
+    const length = lengthText.trim() ? parseLength(lengthText, this.dimensionRenderer.style) : null;
+    const angle = angleText !== undefined ? parseAngle(angleText) : null;
+    if ((lengthText.trim() && length === null) || (angleText !== undefined && angle === null)) return null;
+    if (length === null && angle === null) return null;
+
+    const toCursor = new THREE.Vector3().subVectors(cursor, base);
+    const { xAxis, yAxis } = getCPlaneAxes(this.cplane);
+    let direction: THREE.Vector3;
+
+    if (angle === null) {
+      direction = toCursor.lengthSq() > 1e-18 ? toCursor.clone().normalize() : xAxis;
+    } else if (this.mode === 'angle' && this.state === 'drawing_angle_p2' && this.endPoint) {
+      const arm = new THREE.Vector3().subVectors(this.endPoint, base);
+      let normal = this.cplane.normal.clone().normalize();
+      if (Math.abs(arm.clone().normalize().dot(normal)) > 0.999) {
+        normal = new THREE.Vector3().crossVectors(arm, toCursor).normalize();
+        if (normal.lengthSq() < 0.5) return null;
+      }
+      const side = new THREE.Vector3().crossVectors(arm, toCursor).dot(normal) < 0 ? -1 : 1;
+      direction = arm.projectOnPlane(normal).normalize().applyAxisAngle(normal, side * angle);
+      return base.clone().addScaledVector(direction, length ?? this.endPoint.distanceTo(base));
+    } else {
+      direction = xAxis.multiplyScalar(Math.cos(angle)).add(yAxis.multiplyScalar(Math.sin(angle)));
+    }
+    return base.clone().addScaledVector(direction, length ?? Math.max(toCursor.dot(direction), 0));
+  }
+
+  private getConstraintMode(): 'ortho' | 'polar' | null {
+    if (this.orthoLock !== this.constraintModifier) return 'ortho';
+    return this.polarTracking ? 'polar' : null;
+  }
+
+  // `point` moved onto the nearest allowed direction from the last placed point (keeping its
+  // height above the CPlane), with that direction and the line's start. Null when unconstrained.
+  private getConstraint(point: THREE.Vector3): { point: THREE.Vector3; base: THREE.Vector3; direction: THREE.Vector3 } | null {
+    const mode = this.getConstraintMode();
+    const base = mode && this.state !== 'idle' ? this.getOrthoBase() : null;
+    if (!mode || !base) return null;
+
+    const { xAxis, yAxis } = getCPlaneAxes(this.cplane);
+    const offset = new THREE.Vector3().subVectors(point, base);
+    const x = offset.dot(xAxis);
+    const y = offset.dot(yAxis);
+    if (Math.hypot(x, y) < 1e-9) return null;
+
+    const step = THREE.MathUtils.degToRad(mode === 'ortho' ? 90 : this.polarIncrement);
+    const angle = step > 0 ? Math.round(Math.atan2(y, x) / step) * step : Math.atan2(y, x);
+    const direction = xAxis.multiplyScalar(Math.cos(angle)).add(yAxis.multiplyScalar(Math.sin(angle)));
+
+    const lift = this.cplane.normal.clone().multiplyScalar(offset.dot(this.cplane.normal));
+    const lineStart = base.clone().add(lift);
+    return {
+      point: lineStart.clone().addScaledVector(direction, offset.dot(direction)),
+      base: lineStart,
+      direction: offset.dot(direction) < 0 ? direction.negate() : direction
+    };
+  }
+
+  // Snap with the last placed point as the reference for perpendicular snaps. Under ortho / polar
+  // the snap is projected onto the tracking line, losing its association if that moved it.
+  private getSnap(mouse: THREE.Vector2, objects?: THREE.Object3D[]): SnapResult | null {
+    if (this.typedSnap) return this.typedSnap;
+    this.snappingManager.referencePoint = this.state === 'idle' ? null : this.getOrthoBase();
+    const snap = this.snappingManager.getSnapPoint(mouse, objects);
+    const constraint = snap ? this.getConstraint(snap.point) : null;
+    if (!snap || !constraint || constraint.point.distanceTo(snap.point) < 1e-9) return snap;
+    return { ...snap, point: constraint.point, association: undefined };
+  }
+
+  // Last placed point of the operation in progress
+  private getOrthoBase(): THREE.Vector3 | null {
+    switch (this.state) {
+      case 'dragging_grip': return this.dragOrigin;
+      case 'drawing_polygon': return this.polygonPoints[this.polygonPoints.length - 1];
+      case 'continuing': return this.stringMembers[this.stringMembers.length - 1].end;
+      case 'translating_cplane': return this.cplane.origin;
+      case 'offsetting': return this.mode === 'leader' ? this.endPoint : this.startPoint;
+      default: return this.startPoint;
+    }
   }
 
   private getRayPoint(mouse: THREE.Vector2, referencePoint?: THREE.Vector3): THREE.Vector3 {
@@ -283,11 +1386,26 @@ export class DimensionSystem {
     const result = raycaster.ray.intersectPlane(plane, target);
     
     if (result) {
-      return result;
+      return this.gridSnap ? this.snapToGrid(result) : result;
     }
     
     // Fallback if parallel
     raycaster.ray.at(10, target);
     return target;
   }
-}
\ No newline at end of file
+
+  // Nearest grid intersection in the CPlane, at the point's height above it
+  private snapToGrid(point: THREE.Vector3): THREE.Vector3 {
+    const spacing = this.gridSpacing;
+    if (!(spacing > 0)) return point;
+
+    const { xAxis, yAxis } = getCPlaneAxes(this.cplane);
+    const offset = new THREE.Vector3().subVectors(point, this.cplane.origin);
+    const x = Math.round(offset.dot(xAxis) / spacing) * spacing;
+    const y = Math.round(offset.dot(yAxis) / spacing) * spacing;
+    return this.cplane.origin.clone()
+      .addScaledVector(xAxis, x)
+      .addScaledVector(yAxis, y)
+      .addScaledVector(this.cplane.normal, offset.dot(this.cplane.normal));
+  }
+}
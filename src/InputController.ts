@@ -0,0 +1,254 @@
+import * as THREE from 'three';
+import { DimensionSystem } from './DimensionSystem';
+import { CPlane, DimensionType } from './types';
+
+// Things a key can do. 'mode:<type>' switches the active dimension tool.
+export type InputAction = 'cancel' | 'finish' | 'undo' | 'redo' | 'delete' | 'select' | 'editText' | 'orthoLock' | 'polarTracking' | 'gridSnap' | `mode:${DimensionType}`;
+
+// Key combo -> action. Combos are written like 'Escape', 'Ctrl+Z', 'Ctrl+Shift+Z' or 'L'
+// (letters in upper case; Ctrl also matches Cmd on macOS).
+export type KeyBindings = Record<string, InputAction>;
+
+export const DEFAULT_KEY_BINDINGS: KeyBindings = {
+  'Escape': 'cancel',
+  'Enter': 'finish',
+  'Ctrl+Z': 'undo',
+  'Ctrl+Shift+Z': 'redo',
+  'Ctrl+Y': 'redo',
+  'Delete': 'delete',
+  'Backspace': 'delete',
+  'S': 'select',
+  'F2': 'editText',
+  'F8': 'orthoLock',
+  'F9': 'gridSnap',
+  'F10': 'polarTracking',
+  'L': 'mode:linear',
+  'A': 'mode:aligned',
+  'N': 'mode:angle',
+  'E': 'mode:leader',
+  'R': 'mode:radius',
+  'D': 'mode:diameter',
+  'O': 'mode:ordinate',
+  'Q': 'mode:area'
+};
+
+export interface InputControllerOptions {
+  // Objects to snap to. Defaults to DimensionSystem.getSnappableObjects().
+  getObjects?: () => THREE.Object3D[];
+  // Shows CPlane previews (e.g. a CPlaneHelper); also left out of snapping if it is an Object3D
+  cplaneHelper?: { update: (c: CPlane) => void };
+  // Pixels a pointer may travel between down and up and still count as a click, not a drag
+  clickTolerance?: number;
+  // Merged over DEFAULT_KEY_BINDINGS
+  keyBindings?: KeyBindings;
+  // Where key presses are listened for. Defaults to the element's window.
+  keyTarget?: HTMLElement | Window;
+}
+
+// Wires pointer (mouse, touch, pen) and keyboard input from a canvas to a DimensionSystem.
+// Drags are left to camera controls such as OrbitControls; only clicks place points.
+export class InputController {
+  private system: DimensionSystem;
+  private options: InputControllerOptions;
+  private element: HTMLElement | null = null;
+  private keyTarget: HTMLElement | Window | null = null;
+  private mouse = new THREE.Vector2();
+  private hasMouse = false; // The pointer has moved over the element, so `mouse` is where it is
+
+  // Pointers currently down, by pointerId, with where they went down and whether text was being
+  // typed then (that press ends the text input: clicking away commits it, and is no click)
+  private pointers = new Map<number, { x: number; y: number; duringText: boolean }>();
+  private gesture = false; // More than one pointer went down (pinch/zoom): no click
+
+  public clickTolerance: number;
+  public keyBindings: KeyBindings;
+
+  constructor(system: DimensionSystem, options: InputControllerOptions = {}) {
+    this.system = system;
+    this.options = options;
+    this.clickTolerance = options.clickTolerance ?? 5;
+    this.keyBindings = { ...DEFAULT_KEY_BINDINGS, ...options.keyBindings };
+  }
+
+  public attach(element: HTMLElement) {
+    this.detach();
+    this.element = element;
+    this.keyTarget = this.options.keyTarget ?? element.ownerDocument.defaultView ?? window;
+
+    element.addEventListener('pointermove', this.onPointerMove);
+    element.addEventListener('pointerdown', this.onPointerDown);
+    element.addEventListener('pointerup', this.onPointerUp);
+    element.addEventListener('pointercancel', this.onPointerCancel);
+    element.addEventListener('contextmenu', this.onContextMenu);
+    this.keyTarget.addEventListener('keydown', this.onKeyDown as EventListener);
+    this.keyTarget.addEventListener('keyup', this.onKeyUp as EventListener);
+  }
+
+  public detach() {
+    const element = this.element;
+    if (element) {
+      element.removeEventListener('pointermove', this.onPointerMove);
+      element.removeEventListener('pointerdown', this.onPointerDown);
+      element.removeEventListener('pointerup', this.onPointerUp);
+      element.removeEventListener('pointercancel', this.onPointerCancel);
+      element.removeEventListener('contextmenu', this.onContextMenu);
+    }
+    this.keyTarget?.removeEventListener('keydown', this.onKeyDown as EventListener);
+    this.keyTarget?.removeEventListener('keyup', this.onKeyUp as EventListener);
+
+    this.element = null;
+    this.keyTarget = null;
+    this.pointers.clear();
+    this.gesture = false;
+    this.hasMouse = false;
+  }
+
+  public isAttached(): boolean {
+    return this.element !== null;
+  }
+
+  // Run an action as if its key had been pressed
+  public perform(action: InputAction) {
+    const system = this.system;
+    if (action.startsWith('mode:')) {
+      system.setMode(action.slice(5) as DimensionType);
+      return;
+    }
+
+    switch (action) {
+      case 'cancel': system.cancel(); break;
+      case 'finish': system.finish(); break;
+      case 'undo': system.undo(); break;
+      case 'redo': system.redo(); break;
+      case 'delete': system.deleteSelected(); break;
+      case 'select': system.startSelect(); break;
+      case 'editText': system.editSelectedText(); break;
+      case 'orthoLock': system.setOrthoLock(!system.orthoLock); break;
+      case 'polarTracking': system.setPolarTracking(!system.polarTracking); break;
+      case 'gridSnap': system.setGridSnap(!system.gridSnap); break;
+    }
+  }
+
+  private getObjects(): THREE.Object3D[] {
+    if (this.options.getObjects) return this.options.getObjects();
+    const helper = this.options.cplaneHelper;
+    return this.system.getSnappableObjects(helper instanceof THREE.Object3D ? [helper] : []);
+  }
+
+  // Pointer position in normalized device coordinates
+  private updateMouse(event: PointerEvent) {
+    const rect = this.element!.getBoundingClientRect();
+    this.mouse.x = ((event.clientX - rect.left) / rect.width) * 2 - 1;
+    this.mouse.y = -((event.clientY - rect.top) / rect.height) * 2 + 1;
+  }
+
+  private onPointerMove = (event: PointerEvent) => {
+    if (!event.isPrimary) return;
+    this.updateMouse(event);
+    this.hasMouse = true;
+    this.system.constraintModifier = event.shiftKey; // Shift flips ortho while held
+    this.system.onMouseMove(this.mouse, this.getObjects(), this.options.cplaneHelper);
+  };
+
+  private onPointerDown = (event: PointerEvent) => {
+    // Primary button only: right-click finishes via contextmenu, middle is for the camera
+    if (event.pointerType === 'mouse' && event.button !== 0) return;
+    this.pointers.set(event.pointerId, { x: event.clientX, y: event.clientY, duringText: this.system.isEditingText() });
+    if (this.pointers.size > 1) this.gesture = true;
+  };
+
+  private onPointerUp = (event: PointerEvent) => {
+    const down = this.pointers.get(event.pointerId);
+    this.pointers.delete(event.pointerId);
+    const gesture = this.gesture;
+    if (this.pointers.size === 0) this.gesture = false;
+    if (!down || gesture || down.duringText) return;
+
+    // Moved too far: that was a camera drag, not a click
+    if (Math.hypot(event.clientX - down.x, event.clientY - down.y) > this.clickTolerance) return;
+
+    // Touch and pen have no hover, so snap and preview at the tap first
+    this.updateMouse(event);
+    this.system.constraintModifier = event.shiftKey;
+    const objects = this.getObjects();
+    if (event.pointerType !== 'mouse') {
+      this.system.onMouseMove(this.mouse, objects, this.options.cplaneHelper);
+    }
+    this.system.onClick(this.mouse, objects);
+  };
+
+  private onPointerCancel = (event: PointerEvent) => {
+    this.pointers.delete(event.pointerId);
+    if (this.pointers.size === 0) this.gesture = false;
+  };
+
+  private onContextMenu = (event: MouseEvent) => {
+    event.preventDefault();
+    this.system.finish();
+  };
+
+  private onKeyDown = (event: KeyboardEvent) => {
+    // Leave typing in text fields alone
+    const target = event.target as HTMLElement | null;
+    if (target && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName))) return;
+
+    if (event.key === 'Shift') {
+      this.setConstraintModifier(true);
+      return;
+    }
+
+    if (this.onNumericKey(event)) {
+      event.preventDefault();
+      return;
+    }
+
+    const action = this.keyBindings[getKeyCombo(event)];
+    if (!action) return;
+    event.preventDefault();
+    this.perform(action);
+  };
+
+  private onKeyUp = (event: KeyboardEvent) => {
+    if (event.key === 'Shift') this.setConstraintModifier(false);
+  };
+
+  // Shift flips ortho while held. Pressing or releasing it redraws the preview where the pointer
+  // is, without waiting for it to move.
+  private setConstraintModifier(held: boolean) {
+    if (this.system.constraintModifier === held) return;
+    this.system.constraintModifier = held;
+    if (this.hasMouse) this.system.onMouseMove(this.mouse, this.getObjects(), this.options.cplaneHelper);
+  }
+
+  // Typed distances and angles while placing a point: a digit, '.', '-' or '<' starts one, then
+  // unit letters, feet/inch marks, fractions and spaces add to it. Enter applies it, Backspace
+  // edits it and Escape clears it; other keys keep their bindings. True if the key was used.
+  private onNumericKey(event: KeyboardEvent): boolean {
+    const system = this.system;
+    if (event.ctrlKey || event.metaKey || event.altKey || !system.canEnterNumeric()) return false;
+
+    const text = system.getNumericInput();
+    if (text) {
+      switch (event.key) {
+        case 'Enter': system.commitNumericInput(); return true;
+        case 'Backspace': system.setNumericInput(text.slice(0, -1)); return true;
+        case 'Escape': system.setNumericInput(''); return true;
+      }
+    }
+
+    const accepted = text ? /^[0-9.<\-'"\/ a-z°]$/i : /^[0-9.<-]$/;
+    if (!accepted.test(event.key)) return false;
+    system.setNumericInput(text + event.key);
+    return true;
+  }
+}
+
+// 'Ctrl+Shift+Z' style name for a key press
+export function getKeyCombo(event: KeyboardEvent): string {
+  const parts: string[] = [];
+  if (event.ctrlKey || event.metaKey) parts.push('Ctrl');
+  if (event.altKey) parts.push('Alt');
+  if (event.shiftKey) parts.push('Shift');
+  parts.push(event.key.length === 1 ? event.key.toUpperCase() : event.key);
+  return parts.join('+');
+}
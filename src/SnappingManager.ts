@@ -1,45 +1,104 @@
 import * as THREE from 'three';
-import { SnapResult } from './types';
-import { getClosestPointOnLineSegment } from './utils/geometry';
+import { CPlane, SnapAssociation, SnapResult, SnapType, SnappingManagerEventMap } from './types';
+import {
+  getClosestPointOnLineSegment,
+  getClosestPointOnLineToRay,
+  getLineSegmentParameter,
+  getTriangleMaterial,
+  getVertexWorldPosition,
+  intersectSegments
+} from './utils/geometry';
+import { getGeometryBVH } from './utils/bvh';
+import { getFeatureEdges } from './utils/edges';
+import { createSnapGlyphTexture } from './utils/snapGlyphs';
 
-export class SnappingManager {
+// How many recently hovered edges offer extension snaps
+const MAX_TRACKED_LINES = 3;
+
+// A feature edge or line segment in world space, with the vertices it came from
+interface SnapLine {
+  object: THREE.Object3D;
+  indices: number[];
+  instanceId?: number;
+  start: THREE.Vector3;
+  end: THREE.Vector3;
+}
+
+export class SnappingManager extends THREE.EventDispatcher<SnappingManagerEventMap> {
   private scene: THREE.Scene;
   private camera: THREE.Camera;
+  private renderer: THREE.WebGLRenderer | null;
   private raycaster: THREE.Raycaster;
-  private snapMarker: THREE.Mesh;
+  private snapMarker: THREE.Sprite;
+  private glyphs = new Map<SnapType, THREE.CanvasTexture>();
   private edgeHighlighter: THREE.Line;
   private enabled: boolean = true;
-  private snapThreshold: number = 0.2; // World units
+  private lastSnap: SnapResult | null = null;
+  private hitPoint: THREE.Vector3 | null = null; // Surface point under the cursor, from the last snap search
+  private aperture: HTMLDivElement | null = null;
+  private trackedLines: SnapLine[] = []; // Recently hovered edges, newest first
+
+  // Snap tolerance. 'pixels' keeps it the same size on screen at any zoom (needs the renderer
+  // for the viewport size); 'world' uses snapThreshold in model units.
+  public toleranceMode: 'pixels' | 'world' = 'pixels';
+  public pixelTolerance: number = 12;
+  public snapThreshold: number = 0.2; // World units
+  // Draw the tolerance as a circle around the cursor
+  public showAperture: boolean = false;
+  // Inside the tolerance the highest score wins: weight minus distance as a fraction of the tolerance.
+  // A higher weight always beats a lower one; equal weights go to the nearest candidate.
+  public snapPriorities: Partial<Record<SnapType, number>> = {
+    vertex: 8, intersection: 7, midpoint: 6, perpendicular: 5, edge: 4, centroid: 3, extension: 2, face: 1
+  };
+
+  // Last placed point, for perpendicular snaps (kept up to date by DimensionSystem)
+  public referencePoint: THREE.Vector3 | null = null;
+  // Edges crossing this plane give intersection snaps
+  public cplane: CPlane | null = null;
+
+  // Registered snap targets, and the meshes under them (cached until the registry changes)
+  private snappables = new Set<THREE.Object3D>();
+  private snapTargets: THREE.Object3D[] | null = null;
+
+  // Raycast meshes through a BVH per geometry, built on first use and rebuilt when the geometry changes
+  public useSpatialIndex: boolean = true;
 
   // Config Toggles
   public snapVertices: boolean = true;
   public snapEdges: boolean = true;
   public snapMidpoints: boolean = true;
   public snapCentroids: boolean = true;
-  // Explicitly disable generic face snapping as per requirement, 
-  // or make it a toggle if needed later. For now, we only snap to features.
+  public snapPerpendicular: boolean = true; // Foot of the perpendicular from referencePoint to an edge
+  public snapIntersections: boolean = true; // Two edges, or an edge and the CPlane
+  public snapExtensions: boolean = true; // Along the extension of a recently hovered edge
+  public snapFaces: boolean = false; // Any surface point when no feature is near
+  // Faces meeting at more than this many degrees make a feature edge (as in THREE.EdgesGeometry);
+  // vertex, edge and midpoint snaps only use feature edges, so quad diagonals are ignored
+  public featureEdgeAngle: number = 1;
 
-  public getSnapMarker(): THREE.Mesh {
+  public getSnapMarker(): THREE.Sprite {
     return this.snapMarker;
   }
 
-  constructor(scene: THREE.Scene, camera: THREE.Camera) {
+  // Objects the manager adds to the scene, which must not be snapped to
+  public getHelpers(): THREE.Object3D[] {
+    return [this.snapMarker, this.edgeHighlighter];
+  }
+
+  constructor(scene: THREE.Scene, camera: THREE.Camera, renderer?: THREE.WebGLRenderer) {
+    super();
     this.scene = scene;
     this.camera = camera;
+    this.renderer = renderer ?? null;
     this.raycaster = new THREE.Raycaster();
-    // Optimize raycaster
-    this.raycaster.params.Points!.threshold = 0.1;
-    this.raycaster.params.Line!.threshold = 0.1;
-
-    // Visual helper (Point)
-    const geometry = new THREE.SphereGeometry(0.05, 16, 16);
-    const material = new THREE.MeshBasicMaterial({ 
-      color: 0x00ff00, // Green for snap
-      depthTest: false, 
-      transparent: true, 
-      opacity: 0.8 
+
+    // Visual helper (Point): a glyph per snap type
+    const material = new THREE.SpriteMaterial({
+      depthTest: false,
+      transparent: true,
+      opacity: 0.9
     });
-    this.snapMarker = new THREE.Mesh(geometry, material);
+    this.snapMarker = new THREE.Sprite(material);
     this.snapMarker.renderOrder = 999;
     this.snapMarker.visible = false;
     this.scene.add(this.snapMarker);
@@ -58,6 +117,11 @@ export class SnappingManager {
     this.scene.add(this.edgeHighlighter);
   }
 
+  // Snap through a different camera, e.g. after switching between perspective and plan views
+  public setCamera(camera: THREE.Camera) {
+    this.camera = camera;
+  }
+
   public enable() {
     this.enabled = true;
     this.snapMarker.visible = false; 
@@ -68,128 +132,453 @@ export class SnappingManager {
     this.enabled = false;
     this.snapMarker.visible = false;
     this.edgeHighlighter.visible = false;
+    if (this.aperture) this.aperture.style.display = 'none';
   }
 
-  public getSnapPoint(mouse: THREE.Vector2, objects: THREE.Object3D[]): SnapResult | null {
-    if (!this.enabled) {
-      this.snapMarker.visible = false;
-      this.edgeHighlighter.visible = false;
-      return null;
+  // --- Snappable object registry ---
+
+  public addSnappable(...objects: THREE.Object3D[]) {
+    objects.forEach(o => this.snappables.add(o));
+    this.snapTargets = null;
+  }
+
+  public removeSnappable(...objects: THREE.Object3D[]) {
+    objects.forEach(o => this.snappables.delete(o));
+    this.snapTargets = null;
+  }
+
+  public clearSnappables() {
+    this.snappables.clear();
+    this.snapTargets = null;
+  }
+
+  public hasSnappables(): boolean {
+    return this.snappables.size > 0;
+  }
+
+  // Call after adding or removing children of registered objects
+  public refreshSnappables() {
+    this.snapTargets = null;
+  }
+
+  // Meshes, lines and points under the registered objects
+  public getSnappables(): THREE.Object3D[] {
+    if (!this.snapTargets) {
+      const targets = new Set<THREE.Object3D>();
+      for (const root of this.snappables) {
+        root.traverse(child => {
+          if (isSnappable(child) && child !== this.snapMarker && child !== this.edgeHighlighter) targets.add(child);
+        });
+      }
+      this.snapTargets = [...targets];
     }
+    return this.snapTargets;
+  }
 
+  // Closest hit under the mouse. `objects` (searched recursively) defaults to the registry.
+  public raycast(mouse: THREE.Vector2, objects?: THREE.Object3D[]): THREE.Intersection | null {
     this.raycaster.setFromCamera(mouse, this.camera);
-    const intersects = this.raycaster.intersectObjects(objects, true);
+    const targets = objects ?? this.getSnappables();
+
+    let best: THREE.Intersection | null = null;
+    const inverse = new THREE.Matrix4();
+    const visited = new Set<THREE.Object3D>();
+
+    const visit = (object: THREE.Object3D) => {
+      if (visited.has(object)) return;
+      visited.add(object);
+      object.children.forEach(visit);
+      if (!object.layers.test(this.raycaster.layers)) return;
+
+      let hit: THREE.Intersection | null;
+      if (this.useSpatialIndex && this.canUseSpatialIndex(object)) {
+        hit = this.raycastMesh(object as THREE.Mesh, inverse);
+      } else {
+        hit = this.intersectObject(object)[0] ?? null;
+      }
+      if (hit && (!best || hit.distance < best.distance)) best = hit;
+    };
+    targets.forEach(visit);
+    return best;
+  }
+
+  // Hits on one object, nearest first. Lines and points are picked within the snap tolerance at
+  // the hit: the raycast threshold is the largest tolerance inside the bounding sphere, and each
+  // hit is then checked against the tolerance at its own depth.
+  private intersectObject(object: THREE.Object3D): THREE.Intersection[] {
+    const isLine = !!(object as THREE.Line).isLine;
+    if (!isLine && !(object as THREE.Points).isPoints) return this.raycaster.intersectObject(object, false);
+
+    const geometry = (object as THREE.Line).geometry;
+    if (!geometry.boundingSphere) geometry.computeBoundingSphere();
+    const sphere = geometry.boundingSphere!.clone().applyMatrix4(object.matrixWorld);
+    const ray = this.raycaster.ray;
+    // Farthest point of the ray inside the sphere, or nearest to it when the ray passes by
+    const closest = ray.closestPointToPoint(sphere.center, new THREE.Vector3());
+    const halfChord = Math.sqrt(Math.max(0, sphere.radius ** 2 - closest.distanceToSquared(sphere.center)));
+    const threshold = this.getWorldTolerance(ray.at(ray.origin.distanceTo(closest) + halfChord, new THREE.Vector3()));
+    this.raycaster.params.Line!.threshold = threshold;
+    this.raycaster.params.Points!.threshold = threshold;
+
+    return this.raycaster.intersectObject(object, false).filter(hit => {
+      // Line hits lie on the segment, point hits on the ray
+      const gap = isLine ? ray.distanceToPoint(hit.point) : hit.distanceToRay!;
+      return gap <= this.getWorldTolerance(hit.point);
+    });
+  }
+
+  // Plain meshes only; skinning, morphs and instancing move vertices away from the stored positions
+  private canUseSpatialIndex(object: THREE.Object3D): boolean {
+    const mesh = object as THREE.Mesh;
+    return !!mesh.isMesh &&
+      !(mesh as THREE.SkinnedMesh).isSkinnedMesh &&
+      !(mesh as THREE.InstancedMesh).isInstancedMesh &&
+      !mesh.geometry.morphAttributes.position &&
+      !!mesh.geometry.getAttribute('position');
+  }
+
+  private raycastMesh(mesh: THREE.Mesh, inverse: THREE.Matrix4): THREE.Intersection | null {
+    const bvh = getGeometryBVH(mesh.geometry);
+    if (!bvh) return null;
+
+    const localRay = this.raycaster.ray.clone().applyMatrix4(inverse.copy(mesh.matrixWorld).invert());
+    // Same faces as Mesh.raycast: the draw range, material groups and each material's side
+    const hit = bvh.intersectRay(localRay, Infinity, t => getTriangleMaterial(mesh, t)?.material.side ?? null);
+    if (!hit) return null;
+
+    const point = hit.point.clone().applyMatrix4(mesh.matrixWorld);
+    const distance = this.raycaster.ray.origin.distanceTo(point);
+    if (distance < this.raycaster.near || distance > this.raycaster.far) return null;
+
+    const position = mesh.geometry.getAttribute('position');
+    const normal = new THREE.Triangle(
+      new THREE.Vector3().fromBufferAttribute(position, hit.a),
+      new THREE.Vector3().fromBufferAttribute(position, hit.b),
+      new THREE.Vector3().fromBufferAttribute(position, hit.c)
+    ).getNormal(new THREE.Vector3());
+
+    return {
+      distance,
+      point,
+      object: mesh,
+      face: { a: hit.a, b: hit.b, c: hit.c, normal, materialIndex: getTriangleMaterial(mesh, hit.triangle)!.index },
+      faceIndex: hit.triangle
+    };
+  }
+
+  // The hit triangle and, where the BVH is available, every triangle within snap range of the hit
+  private getTrianglesNearHit(mesh: THREE.Mesh, hit: THREE.Intersection): number[] {
+    const faceIndex = hit.faceIndex!;
+    if (!this.useSpatialIndex || !this.canUseSpatialIndex(mesh)) return [faceIndex];
+
+    const bvh = getGeometryBVH(mesh.geometry);
+    if (!bvh) return [faceIndex];
+    const inverse = mesh.matrixWorld.clone().invert();
+    const radius = this.getWorldTolerance(hit.point);
+    const triangles = bvh.getTrianglesInSphere(new THREE.Sphere(hit.point.clone(), radius).applyMatrix4(inverse))
+      .filter(t => getTriangleMaterial(mesh, t) !== null);
+    return triangles.includes(faceIndex) ? triangles : [faceIndex, ...triangles];
+  }
+
+  // --- Tolerance ---
+
+  // Viewport size in CSS pixels, or null when tolerance is in world units
+  private getPixelSize(): THREE.Vector2 | null {
+    if (this.toleranceMode !== 'pixels' || !this.renderer) return null;
+    const size = this.renderer.getSize(new THREE.Vector2());
+    return size.x > 0 && size.y > 0 ? size : null; // Not laid out yet
+  }
+
+  private getTolerance(): number {
+    return this.getPixelSize() ? this.pixelTolerance : this.snapThreshold;
+  }
+
+  // Distance from the cursor to a candidate, in the tolerance's units
+  private measure(candidate: THREE.Vector3, mouse: THREE.Vector2): number {
+    const size = this.getPixelSize();
+    if (!size) return this.hitPoint ? candidate.distanceTo(this.hitPoint) : this.raycaster.ray.distanceToPoint(candidate);
+    const ndc = candidate.clone().project(this.camera);
+    if (ndc.z > 1) return Infinity; // Behind the camera
+    return Math.hypot(((ndc.x - mouse.x) * size.x) / 2, ((ndc.y - mouse.y) * size.y) / 2);
+  }
+
+  // World distance the tolerance covers at `point`
+  private getWorldTolerance(point: THREE.Vector3): number {
+    const size = this.getPixelSize();
+    if (!size) return this.snapThreshold;
+    const ndc = point.clone().project(this.camera);
+    const offset = ndc.clone();
+    offset.x += (this.pixelTolerance * 2) / size.x;
+    return offset.unproject(this.camera).distanceTo(ndc.unproject(this.camera));
+  }
+
+  // Aperture radius in pixels: fixed in pixel mode, the projected threshold at the surface in world mode
+  private getApertureRadius(): number | null {
+    if (this.getPixelSize()) return this.pixelTolerance;
+    if (!this.renderer || !this.hitPoint) return null;
+
+    const size = this.renderer.getSize(new THREE.Vector2());
+    const right = new THREE.Vector3().setFromMatrixColumn(this.camera.matrixWorld, 0).multiplyScalar(this.snapThreshold);
+    const a = this.hitPoint.clone().project(this.camera);
+    const b = this.hitPoint.clone().add(right).project(this.camera);
+    return Math.hypot(((b.x - a.x) * size.x) / 2, ((b.y - a.y) * size.y) / 2);
+  }
+
+  private updateAperture(mouse: THREE.Vector2) {
+    const radius = this.showAperture && this.enabled ? this.getApertureRadius() : null;
+    if (radius === null || !this.renderer) {
+      if (this.aperture) this.aperture.style.display = 'none';
+      return;
+    }
+
+    const element = this.renderer.domElement;
+    if (!this.aperture) {
+      this.aperture = element.ownerDocument.createElement('div');
+      Object.assign(this.aperture.style, {
+        position: 'fixed',
+        border: '1px solid rgba(0, 255, 0, 0.8)',
+        borderRadius: '50%',
+        boxSizing: 'border-box',
+        transform: 'translate(-50%, -50%)',
+        pointerEvents: 'none',
+        zIndex: '999'
+      });
+      element.ownerDocument.body.appendChild(this.aperture);
+    }
 
-    if (intersects.length === 0) {
+    const rect = element.getBoundingClientRect();
+    Object.assign(this.aperture.style, {
+      display: 'block',
+      left: `${rect.left + ((mouse.x + 1) / 2) * rect.width}px`,
+      top: `${rect.top + ((1 - mouse.y) / 2) * rect.height}px`,
+      width: `${radius * 2}px`,
+      height: `${radius * 2}px`
+    });
+  }
+
+  public getSnapPoint(mouse: THREE.Vector2, objects?: THREE.Object3D[]): SnapResult | null {
+    const snap = this.findSnap(mouse, objects);
+    this.updateAperture(mouse);
+
+    // Only report actual changes, not every mouse move over the same feature
+    const last = this.lastSnap;
+    const same = snap === null
+      ? last === null
+      : last !== null && last.type === snap.type && last.object === snap.object && last.point.distanceToSquared(snap.point) < 1e-12;
+    if (!same) {
+      this.lastSnap = snap;
+      this.dispatchEvent({ type: 'snapChange', snap });
+    }
+    return snap;
+  }
+
+  private findSnap(mouse: THREE.Vector2, objects?: THREE.Object3D[]): SnapResult | null {
+    this.hitPoint = null;
+    if (!this.enabled) {
       this.snapMarker.visible = false;
       this.edgeHighlighter.visible = false;
       return null;
     }
 
-    const hit = intersects[0];
-    const point = hit.point;
-
-    // We'll collect candidates and pick the best one.
-    let bestSnap: SnapResult | null = null;
-    let minSnapDist = this.snapThreshold; // Only snap if within threshold
-
-    if (hit.object instanceof THREE.Mesh && hit.face) {
-      const mesh = hit.object;
-      const geometry = mesh.geometry;
-      
-      if (geometry.isBufferGeometry) {
-        const positionAttribute = geometry.attributes.position;
-        const indices = [hit.face.a, hit.face.b, hit.face.c];
-        
-        // Get vertices in world space
-        const vertices = indices.map(idx => 
-          new THREE.Vector3().fromBufferAttribute(positionAttribute, idx).applyMatrix4(mesh.matrixWorld)
-        );
-
-        // 1. Vertex Snap
-        if (this.snapVertices) {
-          for (const v of vertices) {
-            const dist = v.distanceTo(point);
-            if (dist < minSnapDist) {
-              minSnapDist = dist;
-              bestSnap = {
-                point: v,
-                type: 'vertex',
-                distance: dist,
-                object: mesh
-              };
-            }
-          }
+    // No hit is fine: extension snaps also work over empty space
+    const hit = this.raycast(mouse, objects);
+    const point = hit ? hit.point : null;
+    this.hitPoint = point;
+
+    // We'll collect candidates and keep the best scoring one inside the tolerance
+    let bestSnap = null as SnapResult | null;
+    let bestScore = -Infinity;
+    const tolerance = this.getTolerance();
+    const consider = (candidate: SnapResult) => {
+      const dist = this.measure(candidate.point, mouse);
+      if (dist > tolerance) return;
+      const score = (this.snapPriorities[candidate.type] ?? 0) - dist / tolerance;
+      if (score > bestScore) {
+        bestScore = score;
+        bestSnap = candidate;
+      }
+    };
+    // Associations carry the instance, so instanced snaps re-evaluate on the right copy
+    const association = (
+      source: Pick<SnapLine, 'object' | 'instanceId'>, type: SnapAssociation['type'], indices: number[], t?: number
+    ): SnapAssociation => {
+      const result: SnapAssociation = { object: source.object, type, indices };
+      if (t !== undefined) result.t = t;
+      if (source.instanceId !== undefined) result.instanceId = source.instanceId;
+      return result;
+    };
+    const edgeAssociation = (line: SnapLine, t: number) => association(line, 'edge', [...line.indices], t);
+
+    // Edges to snap along: feature edges of meshes, segments of lines. Points only have vertices.
+    let lines: SnapLine[] = [];
+    if (hit && point) {
+      const object = hit.object;
+      if (object instanceof THREE.Mesh && hit.face && hit.faceIndex !== undefined && hit.faceIndex !== null) {
+        lines = this.getMeshLines(object, hit, point);
+
+        // Centroid Snap (Center of face)
+        if (this.snapCentroids) {
+          const indices = [hit.face.a, hit.face.b, hit.face.c];
+          const centroid = new THREE.Vector3();
+          indices.forEach(i => centroid.add(getVertexWorldPosition(object, i, new THREE.Vector3(), hit.instanceId)));
+          centroid.divideScalar(3);
+          consider({
+            point: centroid,
+            type: 'centroid',
+            distance: centroid.distanceTo(point),
+            object,
+            association: association({ object, instanceId: hit.instanceId }, 'centroid', indices)
+          });
         }
+      } else if ((object as THREE.Line).isLine) {
+        lines = this.getLineSegments(object as THREE.Line);
+      } else if ((object as THREE.Points).isPoints && this.snapVertices) {
+        // Every point within the pick threshold; the one nearest the cursor wins
+        for (const pointHit of this.intersectObject(object)) {
+          if (pointHit.index === undefined) continue;
+          const v = getVertexWorldPosition(object, pointHit.index, new THREE.Vector3());
+          consider({
+            point: v,
+            type: 'vertex',
+            distance: v.distanceTo(point),
+            object,
+            association: { object, type: 'vertex', indices: [pointHit.index] }
+          });
+        }
+      }
+    }
 
-        // 2. Midpoint Snap (Center of edges)
-        if (this.snapMidpoints) {
-           const edges = [
-            [vertices[0], vertices[1]],
-            [vertices[1], vertices[2]],
-            [vertices[2], vertices[0]]
-          ];
-          for (const edge of edges) {
-            const mid = new THREE.Vector3().addVectors(edge[0], edge[1]).multiplyScalar(0.5);
-            const dist = mid.distanceTo(point);
-            if (dist < minSnapDist) {
-              minSnapDist = dist;
-              bestSnap = {
-                point: mid,
-                type: 'midpoint',
-                distance: dist,
-                object: mesh,
-                edgeVertices: [edge[0], edge[1]] // Optional: highlight edge for midpoint too?
-              };
-            }
-          }
+    if (point) {
+      // 1. Vertex Snap (ends of lines)
+      if (this.snapVertices) {
+        for (const line of lines) {
+          [line.start, line.end].forEach((v, i) => consider({
+            point: v,
+            type: 'vertex',
+            distance: v.distanceTo(point),
+            object: line.object,
+            association: association(line, 'vertex', [line.indices[i]])
+          }));
         }
+      }
 
-        // 3. Centroid Snap (Center of face)
-        if (this.snapCentroids) {
-          const centroid = new THREE.Vector3().addVectors(vertices[0], vertices[1]).add(vertices[2]).divideScalar(3);
-          const dist = centroid.distanceTo(point);
-          if (dist < minSnapDist) {
-            minSnapDist = dist;
-            bestSnap = {
-              point: centroid,
-              type: 'centroid',
-              distance: dist,
-              object: mesh
-            };
+      // 2. Midpoint Snap (Center of lines)
+      if (this.snapMidpoints) {
+        for (const line of lines) {
+          const mid = new THREE.Vector3().addVectors(line.start, line.end).multiplyScalar(0.5);
+          consider({
+            point: mid,
+            type: 'midpoint',
+            distance: mid.distanceTo(point),
+            object: line.object,
+            edgeVertices: [line.start, line.end],
+            association: association(line, 'midpoint', [...line.indices])
+          });
+        }
+      }
+
+      // 3. Edge Snap (Anywhere on edge)
+      // Low priority by default, so it only wins away from vertices and midpoints
+      if (this.snapEdges) {
+        for (const line of lines) {
+          const closest = getClosestPointOnLineSegment(point, line.start, line.end);
+          consider({
+            point: closest,
+            type: 'edge',
+            distance: closest.distanceTo(point),
+            object: line.object,
+            edgeVertices: [line.start, line.end],
+            association: edgeAssociation(line, getLineSegmentParameter(point, line.start, line.end))
+          });
+        }
+      }
+
+      // 4. Perpendicular Snap (foot of the perpendicular from the last placed point)
+      const reference = this.referencePoint;
+      if (this.snapPerpendicular && reference) {
+        for (const line of lines) {
+          const t = new THREE.Line3(line.start, line.end).closestPointToPointParameter(reference, false);
+          if (t < 0 || t > 1) continue;
+          const foot = new THREE.Vector3().lerpVectors(line.start, line.end, t);
+          if (foot.distanceTo(reference) < 1e-6) continue;
+          consider({
+            point: foot,
+            type: 'perpendicular',
+            distance: foot.distanceTo(point),
+            object: line.object,
+            edgeVertices: [line.start, line.end],
+            association: edgeAssociation(line, t)
+          });
+        }
+      }
+
+      // 5. Intersection Snap (two edges crossing, or an edge crossing the CPlane)
+      if (this.snapIntersections) {
+        for (let i = 0; i < lines.length; i++) {
+          for (let j = i + 1; j < lines.length; j++) {
+            const crossing = intersectSegments(lines[i].start, lines[i].end, lines[j].start, lines[j].end);
+            // Edges meeting end to end only share a vertex
+            const atEnds = (p: number) => p < 1e-6 || p > 1 - 1e-6;
+            if (!crossing || (atEnds(crossing.t) && atEnds(crossing.u))) continue;
+            consider({
+              point: crossing.point,
+              type: 'intersection',
+              distance: crossing.point.distanceTo(point),
+              object: lines[i].object,
+              association: edgeAssociation(lines[i], crossing.t)
+            });
           }
         }
 
-        // 4. Edge Snap (Anywhere on edge)
-        // We check this LAST or check distance carefully. 
-        // If we have a vertex/midpoint already, that takes precedence usually if it's closer.
-        // But if we are right on the edge far from corners, this kicks in.
-        if (this.snapEdges) {
-          const edges = [
-            [vertices[0], vertices[1]],
-            [vertices[1], vertices[2]],
-            [vertices[2], vertices[0]]
-          ];
-          
-          for (const edge of edges) {
-            const closest = getClosestPointOnLineSegment(point, edge[0], edge[1]);
-            const dist = closest.distanceTo(point);
-            if (dist < minSnapDist) {
-              minSnapDist = dist;
-              bestSnap = {
-                point: closest,
-                type: 'edge',
-                distance: dist,
-                object: mesh,
-                edgeVertices: [edge[0], edge[1]]
-              };
-            }
+        if (this.cplane) {
+          const plane = new THREE.Plane().setFromNormalAndCoplanarPoint(this.cplane.normal, this.cplane.origin);
+          for (const line of lines) {
+            const segment = new THREE.Line3(line.start, line.end);
+            // Edges lying in the plane don't cross it
+            if (Math.abs(segment.delta(new THREE.Vector3()).normalize().dot(plane.normal)) < 1e-9) continue;
+            const crossing = plane.intersectLine(segment, new THREE.Vector3());
+            if (!crossing) continue;
+            consider({
+              point: crossing,
+              type: 'intersection',
+              distance: crossing.distanceTo(point),
+              object: line.object,
+              edgeVertices: [line.start, line.end],
+              association: edgeAssociation(line, getLineSegmentParameter(crossing, line.start, line.end))
+            });
           }
         }
       }
     }
 
-    // If no feature snap found, and we don't allow face snapping, we return null.
+    // 7. Extension Snap (past the ends of recently hovered edges)
+    if (this.snapExtensions) {
+      for (const line of this.trackedLines) {
+        const closest = getClosestPointOnLineToRay(this.raycaster.ray, line.start, line.end);
+        if (!closest || (closest.t >= 0 && closest.t <= 1)) continue;
+        consider({
+          point: closest.point,
+          type: 'extension',
+          distance: point ? closest.point.distanceTo(point) : this.raycaster.ray.distanceToPoint(closest.point),
+          object: line.object,
+          edgeVertices: [closest.t < 0 ? line.start : line.end, closest.point], // The tracking line
+          association: edgeAssociation(line, closest.t)
+        });
+      }
+    }
+
+    // 8. Face Snap (the surface itself, when nothing else is near)
+    if (this.snapFaces && hit && point) {
+      consider({ point: point.clone(), type: 'face', distance: 0, object: hit.object });
+    }
+
+    // Hovered edges can be extended afterwards
+    if (point) {
+      for (const line of lines) {
+        if (this.measure(getClosestPointOnLineSegment(point, line.start, line.end), mouse) <= tolerance) this.trackLine(line);
+      }
+    }
+
     if (!bestSnap) {
       this.snapMarker.visible = false;
       this.edgeHighlighter.visible = false;
@@ -198,19 +587,18 @@ export class SnappingManager {
 
     // Update Visual Helper
     this.snapMarker.position.copy(bestSnap.point);
+    this.snapMarker.scale.setScalar(this.getWorldTolerance(bestSnap.point) * 1.5);
+    this.snapMarker.material.map = this.getGlyph(bestSnap.type);
+    this.snapMarker.material.needsUpdate = true;
     this.snapMarker.visible = true;
-    
-    // Color coding (Optional, or just keep green)
-    // Let's use Green for everything as requested, maybe slight variation later?
-    (this.snapMarker.material as THREE.MeshBasicMaterial).color.setHex(0x00ff00);
-
-    // Handle Edge Highlighting
-    // Show line for 'edge' and maybe 'midpoint'
-    if ((bestSnap.type === 'edge' || bestSnap.type === 'midpoint') && bestSnap.edgeVertices) {
+
+    // Handle Edge Highlighting: the snapped edge, or the tracking line of an extension
+    if (bestSnap.edgeVertices) {
       const positions = this.edgeHighlighter.geometry.attributes.position;
       positions.setXYZ(0, bestSnap.edgeVertices[0].x, bestSnap.edgeVertices[0].y, bestSnap.edgeVertices[0].z);
       positions.setXYZ(1, bestSnap.edgeVertices[1].x, bestSnap.edgeVertices[1].y, bestSnap.edgeVertices[1].z);
       positions.needsUpdate = true;
+      this.edgeHighlighter.geometry.computeBoundingSphere();
       this.edgeHighlighter.visible = true;
     } else {
       this.edgeHighlighter.visible = false;
@@ -218,4 +606,68 @@ export class SnappingManager {
 
     return bestSnap;
   }
+
+  // Feature lines on the hit triangle and its neighbours, in world space as drawn (instance,
+  // morphs and skinning applied). Lines far from the hit (e.g. hidden ones lined up with it on
+  // screen) come along with the BVH leaves; drop them.
+  private getMeshLines(mesh: THREE.Mesh, hit: THREE.Intersection, point: THREE.Vector3): SnapLine[] {
+    const featureEdges = getFeatureEdges(mesh.geometry, this.featureEdgeAngle);
+    if (!featureEdges) return [];
+
+    const lineIds = new Set<number>();
+    for (const t of this.getTrianglesNearHit(mesh, hit)) {
+      featureEdges.getTriangleLines(t).forEach(l => lineIds.add(l));
+    }
+
+    const reach = this.getWorldTolerance(point) * 2;
+    return [...lineIds].map(l => {
+      const { a, b } = featureEdges.lines[l];
+      return {
+        object: mesh,
+        indices: [a, b],
+        instanceId: hit.instanceId,
+        start: getVertexWorldPosition(mesh, a, new THREE.Vector3(), hit.instanceId),
+        end: getVertexWorldPosition(mesh, b, new THREE.Vector3(), hit.instanceId)
+      };
+    }).filter(line => getClosestPointOnLineSegment(point, line.start, line.end).distanceTo(point) <= reach);
+  }
+
+  // Segments of a Line / LineSegments within the pick threshold of the ray
+  private getLineSegments(line: THREE.Line): SnapLine[] {
+    const index = line.geometry.index;
+    const segments = new Map<number, SnapLine>();
+    for (const segmentHit of this.intersectObject(line)) {
+      const i = segmentHit.index;
+      if (i === undefined || segments.has(i)) continue;
+      // The hit index is the segment's first entry in the index buffer, or its first vertex
+      const a = index ? index.getX(i) : i;
+      const b = index ? index.getX(i + 1) : i + 1;
+      segments.set(i, {
+        object: line,
+        indices: [a, b],
+        start: getVertexWorldPosition(line, a, new THREE.Vector3()),
+        end: getVertexWorldPosition(line, b, new THREE.Vector3())
+      });
+    }
+    return [...segments.values()];
+  }
+
+  private trackLine(line: SnapLine) {
+    const same = (other: SnapLine) =>
+      other.object === line.object && other.indices[0] === line.indices[0] && other.indices[1] === line.indices[1];
+    this.trackedLines = [line, ...this.trackedLines.filter(other => !same(other))].slice(0, MAX_TRACKED_LINES);
+  }
+
+  private getGlyph(type: SnapType): THREE.CanvasTexture {
+    let glyph = this.glyphs.get(type);
+    if (!glyph) {
+      glyph = createSnapGlyphTexture(type);
+      this.glyphs.set(type, glyph);
+    }
+    return glyph;
+  }
+}
+
+function isSnappable(object: THREE.Object3D): boolean {
+  return !!((object as THREE.Mesh).isMesh || (object as THREE.Line).isLine || (object as THREE.Points).isPoints);
 }
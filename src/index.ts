@@ -1,4 +1,15 @@
 export * from './DimensionSystem';
 export * from './SnappingManager';
 export * from './DimensionRenderer';
+export * from './CommandHistory';
+export * from './InputController';
 export * from './types';
+export { SERIALIZATION_VERSION } from './utils/serialization';
+export { setDebugLogging } from './utils/log';
+export { createOverlayTextInput } from './utils/textInput';
+export { registerUnitFormatter, hasUnitFormatter, getUnitNames, formatLength, formatAngle, formatArea } from './utils/units';
+export { registerTextBackend, hasTextBackend, getTextBackendNames, canvasTextBackend } from './utils/text';
+export { SDFTextBackend } from './utils/sdfText';
+export { createCPlane, getCPlaneAxes } from './utils/geometry';
+export { TriangleBVH, getGeometryBVH } from './utils/bvh';
+export type { BVHHit } from './utils/bvh';
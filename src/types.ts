@@ -1,6 +1,15 @@
 import * as THREE from 'three';
 
-export type SnapType = 'vertex' | 'edge' | 'midpoint' | 'centroid' | 'face' | 'none';
+export type SnapType = 'vertex' | 'edge' | 'midpoint' | 'centroid' | 'perpendicular' | 'intersection' | 'extension' | 'face' | 'none';
+
+// Where a snap came from on the source geometry, so the point can be re-evaluated later
+export interface SnapAssociation {
+  object: THREE.Object3D;
+  type: 'vertex' | 'midpoint' | 'edge' | 'centroid';
+  indices: number[]; // Vertex indices in the object's position attribute
+  t?: number; // Edge snaps: parameter from indices[0] (0) to indices[1] (1)
+  instanceId?: number; // InstancedMesh: which instance
+}
 
 export interface SnapResult {
   point: THREE.Vector3;
@@ -8,38 +17,209 @@ export interface SnapResult {
   distance: number;
   object: THREE.Object3D;
   edgeVertices?: [THREE.Vector3, THREE.Vector3];
+  association?: SnapAssociation;
 }
 
-export type DimensionType = 'linear' | 'aligned' | 'angle' | 'leader';
+export type DimensionType = 'linear' | 'aligned' | 'angle' | 'leader' | 'radius' | 'diameter' | 'ordinate' | 'area';
+
+// Built-in unit formats; custom ones can be added with registerUnitFormatter
+export type UnitSystem = 'm' | 'cm' | 'mm' | 'ft' | 'in' | 'architectural' | 'engineering' | 'fractional';
+
+export type FractionDenominator = 2 | 4 | 8 | 16 | 32 | 64;
 
 export interface DimensionStyle {
   color: string; 
   fontSize: number;
-  scale: number;
+  scale: number; // Size of text, arrows and ticks: world units, or screenScale pixels each with sizeMode 'screen'
+  sizeMode: 'world' | 'screen'; // 'screen' keeps text, arrows and ticks the same size on screen at any zoom
+  screenScale: number; // Pixels per unit of scale with sizeMode 'screen' (text is 0.5 * scale * screenScale px tall)
   depthTest: boolean;
   offset: number; 
-  units: 'm' | 'mm' | 'ft';
+  units: UnitSystem | (string & {});
+  precision: number | null; // Decimal places; null uses the unit's default
+  anglePrecision: number;
+  fractionDenominator: FractionDenominator; // Architectural/fractional inches, 1/2 to 1/64
+  suppressLeadingZeros: boolean; // .50 instead of 0.50, 6" instead of 0'-6"
+  suppressTrailingZeros: boolean; // 1.5 instead of 1.50, 12' instead of 12'-0"
+  modelUnitScale: number; // Meters per model unit
   textBgColor: string | null; // null for transparent
   textMode: 'horizontal' | 'aligned';
+  fontFamily: string; // CSS font family, e.g. 'Arial' or '"Helvetica Neue", sans-serif'
+  fontWeight: string; // CSS font weight, e.g. 'bold' or '400'
+  textBackend: TextBackendName | (string & {}); // How labels are drawn, see TextBackend
+  showPerimeter: boolean; // Area: add the perimeter to the label
+}
+
+// Turns a length in meters into a label
+export type UnitFormatter = (meters: number, style: DimensionStyle) => string;
+
+// Built-in label renderers; custom ones can be added with registerTextBackend.
+// 'sdf' draws every label from a shared glyph atlas; 'canvas' gives each label its own texture.
+export type TextBackendName = 'sdf' | 'canvas';
+
+export interface TextLabelStyle {
+  color: string;
+  scale: number; // One line of text is 0.5 * scale tall
+  background: string | null;
+  fontFamily: string;
+  fontWeight: string;
+}
+
+// Draws label text as a camera-facing THREE.Sprite: positioned, anchored (center) and picked like one
+export interface TextBackend {
+  createLabel(text: string, style: TextLabelStyle): THREE.Sprite;
+  // For 'aligned' text: the label as a flat mesh centered in its local XY plane, reading along +X
+  // with +Y up, the same size as the sprite. Without it aligned labels stay sprites.
+  createPlanarLabel?(text: string, style: TextLabelStyle): THREE.Mesh;
+  // Frees what createLabel or createPlanarLabel allocated for this label
+  disposeLabel(label: THREE.Sprite | THREE.Mesh): void;
 }
 
 export interface DimensionData {
   id: number;
   type: DimensionType;
-  start: THREE.Vector3;
-  end: THREE.Vector3; // For Angle: P1. For Leader: Elbow.
-  offsetPoint: THREE.Vector3; // For Angle: P2. For Leader: End/Text Pos.
+  start: THREE.Vector3; // For Radius/Diameter: Center. For Ordinate: Measured point.
+  end: THREE.Vector3; // For Angle: P1. For Leader: Elbow. For Radius/Diameter: Point on the circle. Unused by Ordinate (same as start).
+  offsetPoint: THREE.Vector3; // For Angle: P2. For Leader: End/Text Pos. For Radius/Diameter/Ordinate: Text Pos.
   angleP2?: THREE.Vector3;
   text?: string; // Custom text for leader
+  anchors?: DimensionAnchors;
+  axis?: THREE.Vector3; // Linear: unit direction the distance is projected onto
+  normal?: THREE.Vector3; // Radius/Diameter: normal of the circle's plane
+  datum?: CPlane; // Ordinate: the CPlane the coordinate is measured in
+  ordinateAxis?: OrdinateAxis; // Ordinate: which coordinate is labelled
+  points?: THREE.Vector3[]; // Area: outline of a drawn polygon
+  triangles?: THREE.Vector3[]; // Area: picked faces, three corners per triangle
+  groupId?: number; // Members of a chain/baseline string share a group and move/restyle together
+  style?: Partial<DimensionStyle>; // Overrides of the global style
+}
+
+// Optional per-dimension data beyond the control points
+export type DimensionExtras = Omit<Partial<DimensionData>, 'id' | 'type' | 'start' | 'end' | 'offsetPoint' | 'angleP2' | 'text'>;
+
+// Axis a linear dimension measures along: world axes or the active CPlane's in-plane axes
+export type LinearAxis = 'x' | 'y' | 'z' | 'cplane-x' | 'cplane-y';
+
+// Coordinate an ordinate dimension labels, in its datum CPlane
+export type OrdinateAxis = 'x' | 'y';
+
+// Snapped points that follow the geometry they were picked on
+export type AnchorKey = 'start' | 'end' | 'angleP2';
+
+export interface DimensionAnchor {
+  association: SnapAssociation;
+  orphaned: boolean; // The referenced object or vertices no longer exist
 }
 
+export type DimensionAnchors = Partial<Record<AnchorKey, DimensionAnchor>>;
+
+// Editable control points of a placed dimension
+export type GripKey = 'start' | 'end' | 'offsetPoint' | 'angleP2';
+
 export interface CPlane {
   origin: THREE.Vector3;
   normal: THREE.Vector3;
+  xAxis: THREE.Vector3; // In-plane X direction, perpendicular to the normal; Y is normal × X
+}
+
+// --- Text input ---
+
+export interface TextInputRequest {
+  initialText: string;
+  position: THREE.Vector3; // World position of the text
+  camera: THREE.Camera;
+  dimension?: DimensionData; // Set when editing an existing dimension's text
+  signal: AbortSignal; // Aborted if the operation is cancelled while the user is typing
 }
 
+// Asks the user for (possibly multi-line) text. Resolves with null if they cancel.
+export type TextInputProvider = (request: TextInputRequest) => Promise<string | null>;
+
 export interface DimensionOptions {
   color?: string;
   fontSize?: number;
-  units?: 'm' | 'mm' | 'ft';
+  units?: UnitSystem;
+}
+
+// --- Serialization ---
+
+export type SerializedVector3 = [number, number, number];
+
+export interface SerializedCPlane {
+  origin: SerializedVector3;
+  normal: SerializedVector3;
+  xAxis?: SerializedVector3; // Derived from the normal when absent
+}
+
+export interface SerializedDimension {
+  id: number;
+  type: DimensionType;
+  start: SerializedVector3;
+  end: SerializedVector3;
+  offsetPoint: SerializedVector3;
+  angleP2?: SerializedVector3;
+  text?: string;
+  anchors?: Partial<Record<AnchorKey, SerializedAnchor>>;
+  axis?: SerializedVector3;
+  normal?: SerializedVector3;
+  datum?: SerializedCPlane;
+  ordinateAxis?: OrdinateAxis;
+  points?: SerializedVector3[];
+  triangles?: SerializedVector3[];
+  groupId?: number;
+  style?: Partial<DimensionStyle>;
+}
+
+export interface SerializedAnchor {
+  object: string; // uuid
+  objectName?: string; // Fallback lookup when uuids are regenerated on reload
+  type: SnapAssociation['type'];
+  indices: number[];
+  t?: number;
+  instanceId?: number;
+}
+
+export interface SerializedNamedCPlane extends SerializedCPlane {
+  name: string;
+}
+
+export interface DimensionSetJSON {
+  version: number;
+  style: DimensionStyle;
+  cplane: SerializedCPlane;
+  cplanes?: SerializedNamedCPlane[]; // Saved CPlanes, in the order they were added
+  dimensions: SerializedDimension[];
+}
+
+// What DimensionSystem is waiting for
+export type InteractionState = 'idle' | 'drawing' | 'drawing_angle_p2' | 'drawing_circle_p3' | 'offsetting' | 'continuing' | 'drawing_polygon' | 'editing_text' | 'defining_cplane_p1' | 'defining_cplane_p2' | 'defining_cplane_p3' | 'defining_cplane_face' | 'translating_cplane' | 'selecting' | 'selected' | 'dragging_grip';
+
+// --- Events ---
+
+export interface DimensionSystemEventMap {
+  // The interaction state changed or there is a new prompt for the user
+  stateChange: { state: InteractionState; prompt: string };
+  cplaneChange: { cplane: CPlane };
+  // A named CPlane was saved, renamed or deleted
+  cplaneLibraryChange: { names: string[] };
+  modeChange: { mode: DimensionType };
+}
+
+export interface DimensionRendererEventMap {
+  dimensionCreated: { dimension: DimensionData };
+  dimensionUpdated: { dimension: DimensionData };
+  dimensionRemoved: { dimension: DimensionData };
+  selectionChange: { id: number | null };
+  styleChange: { style: DimensionStyle };
+}
+
+export interface SnappingManagerEventMap {
+  // Fired when the snap under the cursor changes; null when nothing snaps
+  snapChange: { snap: SnapResult | null };
+}
+
+export interface DimensionImportResult {
+  imported: number;
+  // One message per malformed entry or field that was skipped
+  errors: string[];
 }
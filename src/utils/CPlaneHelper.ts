@@ -4,15 +4,16 @@ import { CPlane } from '../types';
 export class CPlaneHelper extends THREE.Group {
   private grid: THREE.GridHelper;
   private axis: THREE.AxesHelper;
+  private size: number;
+  private divisions: number;
 
   constructor(size: number = 20, divisions: number = 20) {
     super();
+    this.size = size;
+    this.divisions = divisions;
 
-    // Grid
+    // Grid, in the group's local XZ plane; the group is turned so that is the CPlane
     this.grid = new THREE.GridHelper(size, divisions, 0x888888, 0xcccccc);
-    // Rotate grid to be XY plane by default if we want? 
-    // THREE.GridHelper is XZ.
-    // Let's keep it XZ local, and we rotate the whole group.
     this.add(this.grid);
 
     // Axis
@@ -20,22 +21,31 @@ export class CPlaneHelper extends THREE.Group {
     this.add(this.axis);
   }
 
+  // Distance between grid lines, e.g. for DimensionSystem.gridSpacing
+  public getSpacing(): number {
+    return this.size / this.divisions;
+  }
+
+  public setGrid(size: number, divisions: number) {
+    this.size = size;
+    this.divisions = divisions;
+    this.remove(this.grid, this.axis);
+    this.grid.dispose();
+    this.axis.dispose();
+
+    this.grid = new THREE.GridHelper(size, divisions, 0x888888, 0xcccccc);
+    this.axis = new THREE.AxesHelper(size / 2);
+    this.add(this.grid, this.axis);
+  }
+
   public update(cplane: CPlane) {
     this.position.copy(cplane.origin);
 
-    // Orient the group so that its local UP (Y) matches the CPlane normal.
-    // By default, the group's Up is (0,1,0).
-    
-    // However, GridHelper is in XZ plane, so its normal is Y.
-    // So aligning the Group Y to CPlane normal works perfectly.
-    
-    // We also need to consider the "Right" vector to be stable if possible,
-    // but for a simple CPlane, Normal + Origin is enough definition. 
-    // We'll use lookAt approach or Quaternion from unit vectors.
-    
-    const defaultUp = new THREE.Vector3(0, 1, 0);
-    const quaternion = new THREE.Quaternion();
-    quaternion.setFromUnitVectors(defaultUp, cplane.normal.clone().normalize());
-    this.setRotationFromQuaternion(quaternion);
+    // Local X along the CPlane's X axis and local Y (the grid's normal) along its normal,
+    // so local -Z is the CPlane's Y axis
+    const x = cplane.xAxis.clone().normalize();
+    const y = cplane.normal.clone().normalize();
+    const z = new THREE.Vector3().crossVectors(x, y);
+    this.setRotationFromMatrix(new THREE.Matrix4().makeBasis(x, y, z));
   }
 }
@@ -0,0 +1,175 @@
+import * as THREE from 'three';
+import { CPlane } from '../types';
+import { createCPlane, getVertexWorldPosition, positionKey } from './geometry';
+
+// Plane through the centroid with the polygon's average normal (Newell's method),
+// or null if the points are (nearly) collinear
+export function bestFitPlane(points: THREE.Vector3[]): CPlane | null {
+  if (points.length < 3) return null;
+
+  const origin = new THREE.Vector3();
+  const normal = new THREE.Vector3();
+  for (let i = 0; i < points.length; i++) {
+    const a = points[i];
+    const b = points[(i + 1) % points.length];
+    normal.x += (a.y - b.y) * (a.z + b.z);
+    normal.y += (a.z - b.z) * (a.x + b.x);
+    normal.z += (a.x - b.x) * (a.y + b.y);
+    origin.add(a);
+  }
+  if (normal.lengthSq() < 1e-12) return null;
+  return createCPlane(origin.divideScalar(points.length), normal);
+}
+
+export function projectOntoPlane(points: THREE.Vector3[], plane: CPlane): THREE.Vector3[] {
+  return points.map(p => {
+    const distance = new THREE.Vector3().subVectors(p, plane.origin).dot(plane.normal);
+    return p.clone().sub(plane.normal.clone().multiplyScalar(distance));
+  });
+}
+
+// Triangles (flat list of corners) covering a planar polygon
+export function triangulatePolygon(points: THREE.Vector3[], normal: THREE.Vector3): THREE.Vector3[] {
+  // Work in 2D, in the polygon's plane
+  const quaternion = new THREE.Quaternion().setFromUnitVectors(normal.clone().normalize(), new THREE.Vector3(0, 0, 1));
+  const contour = points.map(p => {
+    const local = p.clone().applyQuaternion(quaternion);
+    return new THREE.Vector2(local.x, local.y);
+  });
+
+  const triangles: THREE.Vector3[] = [];
+  for (const [a, b, c] of THREE.ShapeUtils.triangulateShape(contour, [])) {
+    triangles.push(points[a], points[b], points[c]);
+  }
+  return triangles;
+}
+
+export function getTrianglesArea(triangles: THREE.Vector3[]): number {
+  const triangle = new THREE.Triangle();
+  let area = 0;
+  for (let i = 0; i + 2 < triangles.length; i += 3) {
+    area += triangle.set(triangles[i], triangles[i + 1], triangles[i + 2]).getArea();
+  }
+  return area;
+}
+
+// Edges used by exactly one triangle, i.e. the outline of the region (holes included)
+export function getBoundaryEdges(triangles: THREE.Vector3[]): [THREE.Vector3, THREE.Vector3][] {
+  const edges = new Map<string, { edge: [THREE.Vector3, THREE.Vector3]; count: number }>();
+  for (let i = 0; i + 2 < triangles.length; i += 3) {
+    for (let k = 0; k < 3; k++) {
+      const a = triangles[i + k];
+      const b = triangles[i + ((k + 1) % 3)];
+      const ka = positionKey(a);
+      const kb = positionKey(b);
+      const key = ka < kb ? `${ka}|${kb}` : `${kb}|${ka}`;
+      const entry = edges.get(key);
+      if (entry) entry.count++;
+      else edges.set(key, { edge: [a, b], count: 1 });
+    }
+  }
+  return [...edges.values()].filter(e => e.count === 1).map(e => e.edge);
+}
+
+// The triangles of a mesh that lie in the same plane as triangle `faceIndex` and are connected
+// to it through shared edges, e.g. a whole floor slab or wall face. World space as drawn (instance,
+// skinning and morph targets included), flat list of corners.
+export function collectCoplanarFaces(object: THREE.Object3D, faceIndex: number, instanceId?: number): THREE.Vector3[] | null {
+  const geometry = (object as THREE.Mesh).geometry as THREE.BufferGeometry | undefined;
+  const position = geometry?.getAttribute('position');
+  if (!geometry || !position) return null;
+
+  const index = geometry.index;
+  const triangleCount = Math.floor((index ? index.count : position.count) / 3);
+  if (faceIndex < 0 || faceIndex >= triangleCount) return null;
+
+  object.updateWorldMatrix(true, false);
+  const vertices: THREE.Vector3[] = [];
+  const corner = (t: number, k: number) => {
+    const i = index ? index.getX(t * 3 + k) : t * 3 + k;
+    return (vertices[i] ??= getVertexWorldPosition(object, i, new THREE.Vector3(), instanceId));
+  };
+
+  // Triangles by edge, with vertices merged by position so split normals/UVs don't disconnect faces
+  const corners: THREE.Vector3[][] = [];
+  const edgeToTriangles = new Map<string, number[]>();
+  for (let t = 0; t < triangleCount; t++) {
+    const tri = [corner(t, 0), corner(t, 1), corner(t, 2)];
+    corners.push(tri);
+    for (let k = 0; k < 3; k++) {
+      const ka = positionKey(tri[k]);
+      const kb = positionKey(tri[(k + 1) % 3]);
+      const key = ka < kb ? `${ka}|${kb}` : `${kb}|${ka}`;
+      const list = edgeToTriangles.get(key);
+      if (list) list.push(t);
+      else edgeToTriangles.set(key, [t]);
+    }
+  }
+
+  const seed = new THREE.Triangle(...corners[faceIndex] as [THREE.Vector3, THREE.Vector3, THREE.Vector3]);
+  if (seed.getArea() < 1e-12) return null;
+  const plane = seed.getPlane(new THREE.Plane());
+  const size = Math.sqrt(seed.getArea());
+
+  // Flood fill across shared edges, staying in the seed's plane
+  const triangle = new THREE.Triangle();
+  const normal = new THREE.Vector3();
+  const visited = new Set<number>([faceIndex]);
+  const queue = [faceIndex];
+  const result: THREE.Vector3[] = [];
+  while (queue.length > 0) {
+    const t = queue.pop()!;
+    const tri = corners[t];
+    result.push(...tri);
+
+    for (let k = 0; k < 3; k++) {
+      const ka = positionKey(tri[k]);
+      const kb = positionKey(tri[(k + 1) % 3]);
+      for (const n of edgeToTriangles.get(ka < kb ? `${ka}|${kb}` : `${kb}|${ka}`)!) {
+        if (visited.has(n)) continue;
+        visited.add(n);
+
+        const [a, b, c] = corners[n];
+        triangle.set(a, b, c);
+        if (triangle.getArea() < 1e-12) continue;
+        triangle.getNormal(normal);
+        if (normal.dot(plane.normal) < 0.9999) continue;
+        if (Math.abs(plane.distanceToPoint(c)) > size * 1e-4) continue;
+        queue.push(n);
+      }
+    }
+  }
+  return result;
+}
+
+// A label point for a set of triangles: their area-weighted center. That can fall outside a
+// concave region (an L or U shape), in which case the center of the largest triangle is used.
+export function getTrianglesCentroid(triangles: THREE.Vector3[]): THREE.Vector3 {
+  const triangle = new THREE.Triangle();
+  const centroid = new THREE.Vector3();
+  const midpoint = new THREE.Vector3();
+  const largest = new THREE.Vector3();
+  let largestArea = 0;
+  let total = 0;
+  for (let i = 0; i + 2 < triangles.length; i += 3) {
+    triangle.set(triangles[i], triangles[i + 1], triangles[i + 2]);
+    const area = triangle.getArea();
+    triangle.getMidpoint(midpoint);
+    centroid.addScaledVector(midpoint, area);
+    total += area;
+    if (area > largestArea) {
+      largestArea = area;
+      largest.copy(midpoint);
+    }
+  }
+  if (total <= 0) return centroid;
+  centroid.divideScalar(total);
+
+  // Inside if it touches one of the triangles
+  const closest = new THREE.Vector3();
+  for (let i = 0; i + 2 < triangles.length; i += 3) {
+    triangle.set(triangles[i], triangles[i + 1], triangles[i + 2]);
+    if (triangle.closestPointToPoint(centroid, closest).distanceToSquared(centroid) <= total * 1e-10) return centroid;
+  }
+  return largest;
+}
@@ -0,0 +1,266 @@
+import * as THREE from 'three';
+import { getGeometryVersion } from './geometry';
+
+const MAX_LEAF_TRIANGLES = 8;
+
+export interface BVHHit {
+  triangle: number; // Triangle index (face index) in the geometry
+  a: number; // Vertex indices of its corners
+  b: number;
+  c: number;
+  point: THREE.Vector3; // Local space
+  distance: number; // Along the local ray
+}
+
+// Bounding volume hierarchy over the triangles of a BufferGeometry, in the geometry's local space.
+// Build once, then query rays in O(log n) instead of testing every triangle.
+export class TriangleBVH {
+  private geometry: THREE.BufferGeometry;
+  private order: Uint32Array; // Triangle indices, grouped by leaf
+  private bounds: Float32Array; // Per node: minX, minY, minZ, maxX, maxY, maxZ
+  private nodes: Int32Array; // Per node: first child (-1 for leaves) or offset into `order`, and triangle count
+
+  constructor(geometry: THREE.BufferGeometry) {
+    this.geometry = geometry;
+    const triangleCount = getTriangleCount(geometry);
+
+    // Per-triangle bounds and centroids
+    const position = geometry.getAttribute('position');
+    const triBounds = new Float32Array(triangleCount * 6);
+    const centroids = new Float32Array(triangleCount * 3);
+    const corners = [0, 0, 0];
+    for (let t = 0; t < triangleCount; t++) {
+      this.getCorners(t, corners);
+      for (let axis = 0; axis < 3; axis++) {
+        const get = (i: number) => (axis === 0 ? position.getX(i) : axis === 1 ? position.getY(i) : position.getZ(i));
+        const v0 = get(corners[0]);
+        const v1 = get(corners[1]);
+        const v2 = get(corners[2]);
+        triBounds[t * 6 + axis] = Math.min(v0, v1, v2);
+        triBounds[t * 6 + 3 + axis] = Math.max(v0, v1, v2);
+        centroids[t * 3 + axis] = (v0 + v1 + v2) / 3;
+      }
+    }
+
+    this.order = new Uint32Array(triangleCount);
+    for (let t = 0; t < triangleCount; t++) this.order[t] = t;
+
+    // Top-down build, splitting at the median of the longest centroid axis
+    const bounds: number[] = [];
+    const nodes: number[] = [];
+    const build = (start: number, count: number): number => {
+      const node = nodes.length / 2;
+      nodes.push(0, 0);
+
+      const box = [Infinity, Infinity, Infinity, -Infinity, -Infinity, -Infinity];
+      const centroidBox = [Infinity, Infinity, Infinity, -Infinity, -Infinity, -Infinity];
+      for (let i = start; i < start + count; i++) {
+        const t = this.order[i];
+        for (let axis = 0; axis < 3; axis++) {
+          box[axis] = Math.min(box[axis], triBounds[t * 6 + axis]);
+          box[3 + axis] = Math.max(box[3 + axis], triBounds[t * 6 + 3 + axis]);
+          centroidBox[axis] = Math.min(centroidBox[axis], centroids[t * 3 + axis]);
+          centroidBox[3 + axis] = Math.max(centroidBox[3 + axis], centroids[t * 3 + axis]);
+        }
+      }
+      bounds.push(...box);
+
+      let axis = 0;
+      for (let k = 1; k < 3; k++) {
+        if (centroidBox[3 + k] - centroidBox[k] > centroidBox[3 + axis] - centroidBox[axis]) axis = k;
+      }
+
+      // Leaf: few triangles, or all centroids in one spot
+      if (count <= MAX_LEAF_TRIANGLES || centroidBox[3 + axis] - centroidBox[axis] <= 0) {
+        nodes[node * 2] = -1 - start;
+        nodes[node * 2 + 1] = count;
+        return node;
+      }
+
+      const half = Math.floor(count / 2);
+      selectNth(this.order, start, start + count - 1, start + half, t => centroids[t * 3 + axis]);
+
+      build(start, half); // Left child always directly follows its parent
+      nodes[node * 2] = build(start + half, count - half);
+      nodes[node * 2 + 1] = count;
+      return node;
+    };
+    if (triangleCount > 0) build(0, triangleCount);
+
+    this.bounds = new Float32Array(bounds);
+    this.nodes = new Int32Array(nodes);
+  }
+
+  // Vertex indices of triangle `t`
+  public getCorners(t: number, target: number[] = [0, 0, 0]): number[] {
+    const index = this.geometry.index;
+    for (let k = 0; k < 3; k++) target[k] = index ? index.getX(t * 3 + k) : t * 3 + k;
+    return target;
+  }
+
+  // Triangles whose bounds, grown by `margin`, the ray passes through
+  public getTrianglesNearRay(ray: THREE.Ray, margin: number = 0, maxDistance: number = Infinity): number[] {
+    const result: number[] = [];
+    this.traverse(ray, margin, () => maxDistance, t => result.push(t));
+    return result;
+  }
+
+  // Triangles whose bounds touch the sphere
+  public getTrianglesInSphere(sphere: THREE.Sphere): number[] {
+    const result: number[] = [];
+    if (this.nodes.length === 0) return result;
+
+    const b = this.bounds;
+    const box = new THREE.Box3();
+    const stack = [0];
+    while (stack.length > 0) {
+      const node = stack.pop()!;
+      box.min.set(b[node * 6], b[node * 6 + 1], b[node * 6 + 2]);
+      box.max.set(b[node * 6 + 3], b[node * 6 + 4], b[node * 6 + 5]);
+      if (!box.intersectsSphere(sphere)) continue;
+
+      const first = this.nodes[node * 2];
+      if (first < 0) {
+        const start = -1 - first;
+        const count = this.nodes[node * 2 + 1];
+        for (let i = start; i < start + count; i++) result.push(this.order[i]);
+      } else {
+        stack.push(node + 1, first);
+      }
+    }
+    return result;
+  }
+
+  // Closest triangle hit by the ray. `getSide` gives the side each triangle can be hit from,
+  // or null to skip it; both sides count without it.
+  public intersectRay(ray: THREE.Ray, maxDistance: number = Infinity, getSide?: (triangle: number) => THREE.Side | null): BVHHit | null {
+    const position = this.geometry.getAttribute('position');
+    const a = new THREE.Vector3();
+    const b = new THREE.Vector3();
+    const c = new THREE.Vector3();
+    const point = new THREE.Vector3();
+    const corners = [0, 0, 0];
+    let best: BVHHit | null = null;
+
+    this.traverse(ray, 0, () => (best ? best.distance : maxDistance), t => {
+      const side = getSide ? getSide(t) : THREE.DoubleSide;
+      if (side === null) return;
+
+      this.getCorners(t, corners);
+      a.fromBufferAttribute(position, corners[0]);
+      b.fromBufferAttribute(position, corners[1]);
+      c.fromBufferAttribute(position, corners[2]);
+      // Back faces: the reversed winding faces the ray, as in Mesh.raycast
+      const hit = side === THREE.BackSide
+        ? ray.intersectTriangle(c, b, a, true, point)
+        : ray.intersectTriangle(a, b, c, side === THREE.FrontSide, point);
+      if (!hit) return;
+
+      const distance = ray.origin.distanceTo(point);
+      if (distance > (best ? best.distance : maxDistance)) return;
+      best = { triangle: t, a: corners[0], b: corners[1], c: corners[2], point: point.clone(), distance };
+    });
+    return best;
+  }
+
+  // Visit the triangles of every leaf the ray enters before getMaxDistance(), nearest boxes first
+  private traverse(ray: THREE.Ray, margin: number, getMaxDistance: () => number, visit: (triangle: number) => void) {
+    if (this.nodes.length === 0) return;
+    const stack = [0];
+
+    while (stack.length > 0) {
+      const node = stack.pop()!;
+      if (this.rayBoxDistance(ray, node, margin) > getMaxDistance()) continue;
+
+      const first = this.nodes[node * 2];
+      if (first < 0) {
+        const start = -1 - first;
+        const count = this.nodes[node * 2 + 1];
+        for (let i = start; i < start + count; i++) visit(this.order[i]);
+        continue;
+      }
+
+      // Push the farther child first so the nearer one is visited first
+      const left = node + 1;
+      const right = first;
+      const dLeft = this.rayBoxDistance(ray, left, margin);
+      const dRight = this.rayBoxDistance(ray, right, margin);
+      if (dLeft < dRight) {
+        if (dRight !== Infinity) stack.push(right);
+        if (dLeft !== Infinity) stack.push(left);
+      } else {
+        if (dLeft !== Infinity) stack.push(left);
+        if (dRight !== Infinity) stack.push(right);
+      }
+    }
+  }
+
+  // Distance along the ray to a node's box (0 if the origin is inside), Infinity if missed
+  private rayBoxDistance(ray: THREE.Ray, node: number, margin: number): number {
+    const b = this.bounds;
+    let tMin = 0;
+    let tMax = Infinity;
+    for (let axis = 0; axis < 3; axis++) {
+      const origin = ray.origin.getComponent(axis);
+      const dir = ray.direction.getComponent(axis);
+      const min = b[node * 6 + axis] - margin;
+      const max = b[node * 6 + 3 + axis] + margin;
+      if (Math.abs(dir) < 1e-12) {
+        if (origin < min || origin > max) return Infinity;
+        continue;
+      }
+      let t0 = (min - origin) / dir;
+      let t1 = (max - origin) / dir;
+      if (t0 > t1) [t0, t1] = [t1, t0];
+      tMin = Math.max(tMin, t0);
+      tMax = Math.min(tMax, t1);
+      if (tMin > tMax) return Infinity;
+    }
+    return tMin;
+  }
+}
+
+// Partially orders items[left..right] so items[n] is where a full sort would put it,
+// with smaller keys before it and larger after (quickselect)
+function selectNth(items: Uint32Array, left: number, right: number, n: number, key: (item: number) => number) {
+  while (right > left) {
+    const pivot = key(items[(left + right) >> 1]);
+    let i = left;
+    let j = right;
+    while (i <= j) {
+      while (key(items[i]) < pivot) i++;
+      while (key(items[j]) > pivot) j--;
+      if (i <= j) {
+        const tmp = items[i];
+        items[i] = items[j];
+        items[j] = tmp;
+        i++;
+        j--;
+      }
+    }
+    if (n <= j) right = j;
+    else if (n >= i) left = i;
+    else return;
+  }
+}
+
+function getTriangleCount(geometry: THREE.BufferGeometry): number {
+  const index = geometry.index;
+  const position = geometry.getAttribute('position');
+  return Math.floor((index ? index.count : position ? position.count : 0) / 3);
+}
+
+// One BVH per geometry, rebuilt when its positions or index change
+const cache = new WeakMap<THREE.BufferGeometry, { bvh: TriangleBVH; key: string }>();
+
+export function getGeometryBVH(geometry: THREE.BufferGeometry): TriangleBVH | null {
+  if (!geometry.getAttribute('position')) return null;
+
+  const key = getGeometryVersion(geometry);
+  const cached = cache.get(geometry);
+  if (cached && cached.key === key) return cached.bvh;
+
+  const bvh = new TriangleBVH(geometry);
+  cache.set(geometry, { bvh, key });
+  return bvh;
+}
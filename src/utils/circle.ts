@@ -0,0 +1,140 @@
+import * as THREE from 'three';
+
+export interface Circle {
+  center: THREE.Vector3;
+  radius: number;
+  normal: THREE.Vector3;
+}
+
+const MAX_LOOP_VERTICES = 1024;
+const MIN_LOOP_VERTICES = 6; // Fewer segments than a hexagon reads as a polygon, not a circle
+
+// Circle through three points, or null if they are (nearly) collinear
+export function circleFromThreePoints(a: THREE.Vector3, b: THREE.Vector3, c: THREE.Vector3): Circle | null {
+  const ab = new THREE.Vector3().subVectors(b, a);
+  const ac = new THREE.Vector3().subVectors(c, a);
+  const normal = new THREE.Vector3().crossVectors(ab, ac);
+  const normalLengthSq = normal.lengthSq();
+  if (normalLengthSq < 1e-12) return null;
+
+  // Circumcenter: a + (|ac|² (n × ab) + |ab|² (ac × n)) / 2|n|²
+  const offset = new THREE.Vector3().crossVectors(normal, ab).multiplyScalar(ac.lengthSq())
+    .add(new THREE.Vector3().crossVectors(ac, normal).multiplyScalar(ab.lengthSq()))
+    .divideScalar(2 * normalLengthSq);
+
+  const center = a.clone().add(offset);
+  return { center, radius: offset.length(), normal: normal.normalize() };
+}
+
+// Walks the closed loop of edges continuing the edge (i0, i1) of a mesh, e.g. the rim of a
+// CylinderGeometry cap, and returns its circle in world space if the loop is circular.
+// i0 and i1 are indices into the geometry's position attribute.
+export function findCircularEdgeLoop(object: THREE.Object3D, i0: number, i1: number): Circle | null {
+  const geometry = (object as THREE.Mesh).geometry as THREE.BufferGeometry | undefined;
+  const position = geometry?.getAttribute('position');
+  if (!geometry || !position || i0 >= position.count || i1 >= position.count) return null;
+
+  // Merge vertices by position so UV seams and split normals don't break the loop
+  const keyToId = new Map<string, number>();
+  const vertexId = new Int32Array(position.count);
+  const points: THREE.Vector3[] = [];
+  for (let i = 0; i < position.count; i++) {
+    const p = new THREE.Vector3().fromBufferAttribute(position, i);
+    const key = `${Math.round(p.x * 1e4)}_${Math.round(p.y * 1e4)}_${Math.round(p.z * 1e4)}`;
+    let id = keyToId.get(key);
+    if (id === undefined) {
+      id = points.length;
+      keyToId.set(key, id);
+      points.push(p);
+    }
+    vertexId[i] = id;
+  }
+
+  // Vertex adjacency from triangle edges
+  const neighbors = points.map(() => new Set<number>());
+  const index = geometry.index;
+  const triangleCount = (index ? index.count : position.count) / 3;
+  for (let t = 0; t < triangleCount; t++) {
+    const corners = [0, 1, 2].map(k => vertexId[index ? index.getX(t * 3 + k) : t * 3 + k]);
+    for (let k = 0; k < 3; k++) {
+      const a = corners[k];
+      const b = corners[(k + 1) % 3];
+      if (a === b) continue;
+      neighbors[a].add(b);
+      neighbors[b].add(a);
+    }
+  }
+
+  const loop = [vertexId[i0], vertexId[i1]];
+  if (loop[0] === loop[1]) return null;
+  const segmentLength = points[loop[0]].distanceTo(points[loop[1]]);
+
+  // Set by the first step: the plane the loop turns in, and by how much per vertex
+  let turnAxis: THREE.Vector3 | null = null;
+  let turnAngle = 0;
+  let closed = false;
+
+  while (loop.length < MAX_LOOP_VERTICES) {
+    const prev = loop[loop.length - 2];
+    const curr = loop[loop.length - 1];
+    const inDir = new THREE.Vector3().subVectors(points[curr], points[prev]).normalize();
+
+    // Pick the straightest continuation with a matching segment length and turn
+    let best = -1;
+    let bestCos = -Infinity;
+    for (const n of neighbors[curr]) {
+      if (n === prev) continue;
+      const outDir = new THREE.Vector3().subVectors(points[n], points[curr]);
+      const length = outDir.length();
+      if (Math.abs(length - segmentLength) > segmentLength * 0.1) continue;
+      outDir.divideScalar(length);
+
+      const cos = inDir.dot(outDir);
+      if (cos < 0) continue; // Sharper than 90°: a corner, not a smooth curve
+
+      if (turnAxis) {
+        const axis = new THREE.Vector3().crossVectors(inDir, outDir).normalize();
+        if (axis.dot(turnAxis) < 0.99) continue;
+        if (Math.abs(Math.acos(Math.min(1, cos)) - turnAngle) > turnAngle * 0.25 + 1e-3) continue;
+      }
+
+      if (cos > bestCos) {
+        bestCos = cos;
+        best = n;
+      }
+    }
+    if (best === -1) return null;
+
+    if (!turnAxis) {
+      const outDir = new THREE.Vector3().subVectors(points[best], points[curr]).normalize();
+      turnAxis = new THREE.Vector3().crossVectors(inDir, outDir);
+      if (turnAxis.lengthSq() < 1e-10) return null; // Straight line
+      turnAxis.normalize();
+      turnAngle = Math.acos(Math.min(1, bestCos));
+    }
+
+    if (best === loop[0]) {
+      closed = true;
+      break;
+    }
+    if (loop.includes(best)) return null;
+    loop.push(best);
+  }
+
+  if (!closed || loop.length < MIN_LOOP_VERTICES) return null;
+
+  // Fit through three well-spread vertices, then check the rest lie on it
+  const n = loop.length;
+  const local = circleFromThreePoints(points[loop[0]], points[loop[Math.floor(n / 3)]], points[loop[Math.floor((2 * n) / 3)]]);
+  if (!local) return null;
+  for (const id of loop) {
+    if (Math.abs(points[id].distanceTo(local.center) - local.radius) > local.radius * 0.02) return null;
+  }
+
+  // To world space
+  object.updateWorldMatrix(true, false);
+  const center = local.center.clone().applyMatrix4(object.matrixWorld);
+  const rim = points[loop[0]].clone().applyMatrix4(object.matrixWorld);
+  const normal = local.normal.clone().applyMatrix3(new THREE.Matrix3().getNormalMatrix(object.matrixWorld)).normalize();
+  return { center, radius: center.distanceTo(rim), normal };
+}
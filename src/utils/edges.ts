@@ -0,0 +1,127 @@
+import * as THREE from 'three';
+import { getGeometryVersion, positionKey } from './geometry';
+
+// A run of collinear feature edges, e.g. a box edge split into several triangle edges
+export interface FeatureLine {
+  a: number; // Vertex indices of the ends
+  b: number;
+}
+
+// The edges THREE.EdgesGeometry would draw: boundary edges, and edges where the faces on either
+// side meet at more than `thresholdAngle` degrees. Collinear runs are merged into one line,
+// so a line's midpoint is the midpoint of the real edge.
+export class FeatureEdges {
+  public lines: FeatureLine[] = [];
+  private triangleLines: Int32Array; // Per triangle edge (corner k to k + 1): line index, or -1
+
+  constructor(geometry: THREE.BufferGeometry, thresholdAngle: number = 1) {
+    const position = geometry.getAttribute('position');
+    const index = geometry.index;
+    const triangleCount = Math.floor((index ? index.count : position.count) / 3);
+    this.triangleLines = new Int32Array(triangleCount * 3).fill(-1);
+
+    // Vertices merged by position, so split normals/UVs don't turn every seam into a boundary
+    const v = new THREE.Vector3();
+    const keys: string[] = [];
+    for (let i = 0; i < position.count; i++) keys.push(positionKey(v.fromBufferAttribute(position, i)));
+
+    // Edges by merged key, with the normal of the first face on them
+    const cosThreshold = Math.cos(THREE.MathUtils.DEG2RAD * thresholdAngle);
+    const edges = new Map<string, { a: number; b: number; normal: THREE.Vector3; count: number; feature: boolean; refs: number[] }>();
+    const triangle = new THREE.Triangle();
+    const normal = new THREE.Vector3();
+    for (let t = 0; t < triangleCount; t++) {
+      const corners = [0, 1, 2].map(k => (index ? index.getX(t * 3 + k) : t * 3 + k));
+      triangle.setFromAttributeAndIndices(position as THREE.BufferAttribute, corners[0], corners[1], corners[2]);
+      if (triangle.getArea() < 1e-12) continue;
+      triangle.getNormal(normal);
+
+      for (let k = 0; k < 3; k++) {
+        const a = corners[k];
+        const b = corners[(k + 1) % 3];
+        if (keys[a] === keys[b]) continue;
+        const key = keys[a] < keys[b] ? `${keys[a]}|${keys[b]}` : `${keys[b]}|${keys[a]}`;
+
+        const edge = edges.get(key);
+        if (!edge) {
+          edges.set(key, { a, b, normal: normal.clone(), count: 1, feature: false, refs: [t * 3 + k] });
+          continue;
+        }
+        edge.count++;
+        edge.refs.push(t * 3 + k);
+        if (normal.dot(edge.normal) <= cosThreshold) edge.feature = true;
+      }
+    }
+
+    const features = [...edges.values()].filter(e => e.feature || e.count === 1);
+    const byVertex = new Map<string, number[]>();
+    features.forEach((e, i) => {
+      for (const key of [keys[e.a], keys[e.b]]) {
+        const list = byVertex.get(key);
+        if (list) list.push(i);
+        else byVertex.set(key, [i]);
+      }
+    });
+
+    const direction = (i: number) => {
+      const e = features[i];
+      return new THREE.Vector3().fromBufferAttribute(position, e.b).sub(v.fromBufferAttribute(position, e.a)).normalize();
+    };
+    // A vertex where exactly two collinear feature edges meet lies in the middle of a line
+    const passesThrough = (key: string) => {
+      const list = byVertex.get(key)!;
+      return list.length === 2 && Math.abs(direction(list[0]).dot(direction(list[1]))) > 1 - 1e-6;
+    };
+
+    // Walk from each edge not yet on a line to both ends of its line
+    const lineOf = new Int32Array(features.length).fill(-1);
+    for (let i = 0; i < features.length; i++) {
+      if (lineOf[i] >= 0) continue;
+      const line = this.lines.length;
+      lineOf[i] = line;
+
+      const ends: number[] = [];
+      for (const start of [features[i].a, features[i].b]) {
+        let current = i;
+        let vertex = start;
+        while (passesThrough(keys[vertex])) {
+          const list = byVertex.get(keys[vertex])!;
+          const next = list[0] === current ? list[1] : list[0];
+          if (lineOf[next] >= 0) break;
+          lineOf[next] = line;
+          current = next;
+          vertex = keys[features[next].a] === keys[vertex] ? features[next].b : features[next].a;
+        }
+        ends.push(vertex);
+      }
+      this.lines.push({ a: ends[0], b: ends[1] });
+    }
+
+    features.forEach((e, i) => e.refs.forEach(ref => (this.triangleLines[ref] = lineOf[i])));
+  }
+
+  // Lines running along the edges of triangle `t`
+  public getTriangleLines(t: number): number[] {
+    const result: number[] = [];
+    for (let k = 0; k < 3; k++) {
+      const line = this.triangleLines[t * 3 + k];
+      if (line !== undefined && line >= 0) result.push(line);
+    }
+    return result;
+  }
+}
+
+// One set per geometry and threshold, rebuilt when the geometry changes
+const cache = new WeakMap<THREE.BufferGeometry, { edges: FeatureEdges; key: string }>();
+
+export function getFeatureEdges(geometry: THREE.BufferGeometry, thresholdAngle: number = 1): FeatureEdges | null {
+  if (!geometry.getAttribute('position')) return null;
+
+  const key = `${getGeometryVersion(geometry)}/${thresholdAngle}`;
+  const cached = cache.get(geometry);
+  if (cached && cached.key === key) return cached.edges;
+
+  const edges = new FeatureEdges(geometry, thresholdAngle);
+  cache.set(geometry, { edges, key });
+  return edges;
+}
@@ -1,4 +1,5 @@
 import * as THREE from 'three';
+import { CPlane, SnapAssociation } from '../types';
 
 export function getClosestPointOnLineSegment(point: THREE.Vector3, start: THREE.Vector3, end: THREE.Vector3): THREE.Vector3 {
   const line = new THREE.Line3(start, end);
@@ -6,3 +7,173 @@ export function getClosestPointOnLineSegment(point: THREE.Vector3, start: THREE.
   line.closestPointToPoint(point, true, target);
   return target;
 }
+
+// Closest point to the ray on the infinite line through start-end, with its parameter
+// (0 at start, 1 at end). Null if they are parallel or the point is behind the ray.
+export function getClosestPointOnLineToRay(ray: THREE.Ray, start: THREE.Vector3, end: THREE.Vector3): { point: THREE.Vector3; t: number } | null {
+  const d1 = ray.direction;
+  const d2 = new THREE.Vector3().subVectors(end, start);
+  const r = new THREE.Vector3().subVectors(ray.origin, start);
+  const a = d1.dot(d1);
+  const b = d1.dot(d2);
+  const e = d2.dot(d2);
+  const c = d1.dot(r);
+  const f = d2.dot(r);
+  const denom = a * e - b * b;
+  if (denom < 1e-12 * a * e) return null;
+
+  const s = (b * f - c * e) / denom;
+  if (s < 0) return null;
+  const t = (a * f - b * c) / denom;
+  return { point: start.clone().add(d2.multiplyScalar(t)), t };
+}
+
+// Where segments a0-a1 and b0-b1 cross, with the parameter along each. Null if they are
+// parallel or miss each other by more than a small fraction of their length.
+export function intersectSegments(
+  a0: THREE.Vector3, a1: THREE.Vector3, b0: THREE.Vector3, b1: THREE.Vector3
+): { point: THREE.Vector3; t: number; u: number } | null {
+  const d1 = new THREE.Vector3().subVectors(a1, a0);
+  const d2 = new THREE.Vector3().subVectors(b1, b0);
+  const r = new THREE.Vector3().subVectors(a0, b0);
+  const a = d1.dot(d1);
+  const e = d2.dot(d2);
+  const b = d1.dot(d2);
+  const c = d1.dot(r);
+  const f = d2.dot(r);
+  const denom = a * e - b * b;
+  if (denom < 1e-12 * a * e) return null;
+
+  const t = (b * f - c * e) / denom;
+  const u = (a * f - b * c) / denom;
+  const eps = 1e-6;
+  if (t < -eps || t > 1 + eps || u < -eps || u > 1 + eps) return null;
+
+  const p = a0.clone().addScaledVector(d1, t);
+  const q = b0.clone().addScaledVector(d2, u);
+  if (p.distanceTo(q) > 1e-4 * Math.sqrt(Math.max(a, e))) return null;
+  return { point: p, t, u };
+}
+
+// Key that merges points closer than ~1e-4, e.g. vertices split for normals or UVs
+export function positionKey(p: THREE.Vector3): string {
+  return `${Math.round(p.x * 1e4)}_${Math.round(p.y * 1e4)}_${Math.round(p.z * 1e4)}`;
+}
+
+// Changes whenever a geometry's positions or index are replaced or flagged with needsUpdate
+export function getGeometryVersion(geometry: THREE.BufferGeometry): string {
+  const position = geometry.getAttribute('position');
+  const index = geometry.index;
+  const version = (position as THREE.InterleavedBufferAttribute).isInterleavedBufferAttribute
+    ? (position as THREE.InterleavedBufferAttribute).data.version
+    : (position as THREE.BufferAttribute).version;
+  return `${version}/${position.count}/${index ? `${index.version}/${index.count}` : '-'}`;
+}
+
+// X axis for a plane given only its normal: world X turned the shortest way from Y-up to the normal
+export function getDefaultCPlaneXAxis(normal: THREE.Vector3): THREE.Vector3 {
+  const quaternion = new THREE.Quaternion().setFromUnitVectors(new THREE.Vector3(0, 1, 0), normal.clone().normalize());
+  return new THREE.Vector3(1, 0, 0).applyQuaternion(quaternion);
+}
+
+// A CPlane with a unit normal and an X axis flattened onto the plane. Falls back to the
+// default X axis if `xAxis` is missing or along the normal. Copies its inputs.
+export function createCPlane(origin: THREE.Vector3, normal: THREE.Vector3, xAxis?: THREE.Vector3): CPlane {
+  const n = normal.clone().normalize();
+  const x = xAxis ? xAxis.clone().projectOnPlane(n) : new THREE.Vector3();
+  return {
+    origin: origin.clone(),
+    normal: n,
+    xAxis: x.lengthSq() > 1e-12 ? x.normalize() : getDefaultCPlaneXAxis(n)
+  };
+}
+
+// In-plane axes of a CPlane: its X axis, and Y = normal × X. This is the orientation CPlaneHelper
+// draws (local X and -Z of its grid).
+export function getCPlaneAxes(cplane: CPlane): { xAxis: THREE.Vector3; yAxis: THREE.Vector3 } {
+  const xAxis = cplane.xAxis.clone();
+  return { xAxis, yAxis: new THREE.Vector3().crossVectors(cplane.normal, xAxis).normalize() };
+}
+
+// Parameter (0..1) of the closest point on segment start-end
+export function getLineSegmentParameter(point: THREE.Vector3, start: THREE.Vector3, end: THREE.Vector3): number {
+  return new THREE.Line3(start, end).closestPointToPointParameter(point, true);
+}
+
+// World position of a vertex as drawn: morph targets, skinning and the instance's matrix included
+export function getVertexWorldPosition(object: THREE.Object3D, index: number, target: THREE.Vector3, instanceId?: number): THREE.Vector3 {
+  const mesh = object as THREE.Mesh;
+  if (mesh.isMesh) {
+    mesh.getVertexPosition(index, target);
+  } else {
+    target.fromBufferAttribute((object as THREE.Line).geometry.getAttribute('position'), index);
+  }
+
+  const instanced = object as THREE.InstancedMesh;
+  if (instanced.isInstancedMesh && instanceId !== undefined) {
+    const matrix = new THREE.Matrix4();
+    instanced.getMatrixAt(instanceId, matrix);
+    target.applyMatrix4(matrix);
+  }
+  return target.applyMatrix4(object.matrixWorld);
+}
+
+// Material a raycast tests triangle `t` of a mesh with, and its index in the material array.
+// Null where three.js skips the triangle: outside the draw range, or in no group with a material.
+export function getTriangleMaterial(mesh: THREE.Mesh, t: number): { material: THREE.Material; index: number } | null {
+  const geometry = mesh.geometry;
+  const count = geometry.index ? geometry.index.count : geometry.getAttribute('position').count;
+  const first = t * 3;
+  const inRange = (start: number, length: number) => first >= start && first + 3 <= Math.min(start + length, count);
+  if (!inRange(geometry.drawRange.start, geometry.drawRange.count)) return null;
+
+  if (!Array.isArray(mesh.material)) return { material: mesh.material, index: 0 };
+  for (const group of geometry.groups) {
+    if (!inRange(group.start, group.count)) continue;
+    const index = group.materialIndex ?? 0;
+    const material = mesh.material[index];
+    return material ? { material, index } : null;
+  }
+  return null;
+}
+
+// Recomputes the world position of an associated snap.
+// Returns false if the object has left the scene or the referenced vertices are gone.
+export function evaluateAssociation(association: SnapAssociation, target: THREE.Vector3): boolean {
+  const { object, indices } = association;
+
+  let root = object;
+  while (root.parent) root = root.parent;
+  if (!(root as THREE.Scene).isScene) return false;
+
+  const geometry = (object as THREE.Mesh).geometry as THREE.BufferGeometry | undefined;
+  const position = geometry?.getAttribute('position');
+  if (!position || indices.length === 0 || indices.some(i => !Number.isInteger(i) || i < 0 || i >= position.count)) return false;
+
+  const { instanceId } = association;
+  const instanced = object as THREE.InstancedMesh;
+  if (instanceId !== undefined && (!instanced.isInstancedMesh || instanceId >= instanced.count)) return false;
+
+  object.updateWorldMatrix(true, false);
+  const vertices = indices.map(i => getVertexWorldPosition(object, i, new THREE.Vector3(), instanceId));
+
+  switch (association.type) {
+    case 'vertex':
+      target.copy(vertices[0]);
+      break;
+    case 'midpoint':
+      if (vertices.length < 2) return false;
+      target.lerpVectors(vertices[0], vertices[1], 0.5);
+      break;
+    case 'edge':
+      if (vertices.length < 2) return false;
+      target.lerpVectors(vertices[0], vertices[1], association.t ?? 0.5);
+      break;
+    case 'centroid':
+      target.set(0, 0, 0);
+      for (const v of vertices) target.add(v);
+      target.divideScalar(vertices.length);
+      break;
+  }
+  return true;
+}
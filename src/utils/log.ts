@@ -0,0 +1,14 @@
+// Opt-in console output, off by default. DimensionSystem.debug switches it for the whole library.
+let debugLogging = false;
+
+export function setDebugLogging(enabled: boolean) {
+  debugLogging = enabled;
+}
+
+export function isDebugLogging(): boolean {
+  return debugLogging;
+}
+
+export function debugWarn(...args: unknown[]) {
+  if (debugLogging) console.warn(...args);
+}
@@ -0,0 +1,31 @@
+import { debugWarn } from './log';
+
+// Named implementations with a fixed set of built-ins that can be overridden, e.g. unit formats
+export class Registry<T> {
+  private kind: string; // What the entries are, for messages
+  private entries: Map<string, T>;
+  private builtIn: Set<string>;
+
+  constructor(kind: string, builtIn: [string, T][]) {
+    this.kind = kind;
+    this.entries = new Map(builtIn);
+    this.builtIn = new Set(this.entries.keys());
+  }
+
+  public register(name: string, value: T) {
+    if (this.builtIn.has(name)) debugWarn(`Overriding built-in ${this.kind} '${name}'`);
+    this.entries.set(name, value);
+  }
+
+  public has(name: string): boolean {
+    return this.entries.has(name);
+  }
+
+  public get(name: string): T | undefined {
+    return this.entries.get(name);
+  }
+
+  public getNames(): string[] {
+    return [...this.entries.keys()];
+  }
+}
@@ -0,0 +1,322 @@
+import * as THREE from 'three';
+import { TextBackend, TextLabelStyle } from '../types';
+
+const FONT_SIZE = 48; // Glyphs are rasterized at this size
+const LINE_HEIGHT = FONT_SIZE * 1.4;
+const BUFFER = 8; // Room around each glyph for its distance field, in atlas pixels
+const RADIUS = 8; // Distance in atlas pixels that takes the field from the edge (0.5) to 0 or 1
+const PADDING = (12 * FONT_SIZE) / 64; // Border + padding of the canvas backend, scaled to FONT_SIZE
+const ATLAS_WIDTH = 1024;
+const INF = 1e20;
+
+interface Glyph {
+  x: number; // Top left of the glyph's cell in the atlas, in pixels
+  y: number;
+  width: number; // Cell size, BUFFER included
+  advance: number; // Pen movement, in pixels at FONT_SIZE
+}
+
+// Signed distance fields of the glyphs of one font, packed in rows into a single-channel texture.
+// Glyphs are added as labels first use them; the texture doubles in height when it fills up.
+class GlyphAtlas {
+  // Shared by every label material of this font, so a regrown texture reaches all of them
+  public readonly map: THREE.IUniform<THREE.DataTexture>;
+  public readonly size: THREE.IUniform<THREE.Vector2>;
+
+  private font: string;
+  private glyphs = new Map<string, Glyph>();
+  private context: CanvasRenderingContext2D;
+  private data: Uint8Array;
+  private height = 256;
+  private cursorX = 0;
+  private cursorY = 0;
+
+  constructor(fontFamily: string, fontWeight: string) {
+    this.font = `${fontWeight} ${FONT_SIZE}px ${fontFamily}`;
+    const canvas = document.createElement('canvas');
+    this.context = canvas.getContext('2d', { willReadFrequently: true })!;
+    this.data = new Uint8Array(ATLAS_WIDTH * this.height);
+    this.map = { value: this.createTexture() };
+    this.size = { value: new THREE.Vector2(ATLAS_WIDTH, this.height) };
+  }
+
+  public getGlyph(char: string): Glyph {
+    let glyph = this.glyphs.get(char);
+    if (!glyph) {
+      glyph = this.addGlyph(char);
+      this.glyphs.set(char, glyph);
+    }
+    return glyph;
+  }
+
+  public dispose() {
+    this.map.value.dispose();
+  }
+
+  private addGlyph(char: string): Glyph {
+    const context = this.context;
+    context.font = this.font;
+    const advance = context.measureText(char).width;
+    const width = Math.ceil(advance) + BUFFER * 2;
+    const height = Math.ceil(LINE_HEIGHT) + BUFFER * 2;
+
+    // Next free spot, starting a new row or growing the texture as needed
+    if (this.cursorX + width > ATLAS_WIDTH) {
+      this.cursorX = 0;
+      this.cursorY += height;
+    }
+    while (this.cursorY + height > this.height) this.grow();
+    const glyph: Glyph = { x: this.cursorX, y: this.cursorY, width, advance };
+    this.cursorX += width;
+
+    // Rasterize like the canvas backend does: left aligned, vertically centered in the line
+    const canvas = context.canvas;
+    if (canvas.width < width || canvas.height < height) {
+      canvas.width = Math.max(canvas.width, width);
+      canvas.height = Math.max(canvas.height, height);
+    }
+    context.clearRect(0, 0, width, height);
+    context.font = this.font;
+    context.fillStyle = '#000';
+    context.textAlign = 'left';
+    context.textBaseline = 'middle';
+    context.fillText(char, BUFFER, BUFFER + LINE_HEIGHT / 2);
+    const alpha = context.getImageData(0, 0, width, height).data;
+
+    // Squared distances to the nearest outside (for inside pixels) and inside (for outside pixels) pixel,
+    // with partly covered pixels treated as that far from the edge
+    const outer = new Float64Array(width * height);
+    const inner = new Float64Array(width * height);
+    for (let i = 0; i < width * height; i++) {
+      const a = alpha[i * 4 + 3] / 255;
+      outer[i] = a === 1 ? 0 : a === 0 ? INF : Math.max(0, 0.5 - a) ** 2;
+      inner[i] = a === 1 ? INF : a === 0 ? 0 : Math.max(0, a - 0.5) ** 2;
+    }
+    distanceTransform(outer, width, height);
+    distanceTransform(inner, width, height);
+
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const i = y * width + x;
+        const distance = Math.sqrt(outer[i]) - Math.sqrt(inner[i]); // Positive outside the glyph
+        const value = THREE.MathUtils.clamp(0.5 - distance / (2 * RADIUS), 0, 1);
+        this.data[(glyph.y + y) * ATLAS_WIDTH + glyph.x + x] = Math.round(value * 255);
+      }
+    }
+    this.map.value.needsUpdate = true;
+    return glyph;
+  }
+
+  // Double the height, keeping glyphs where they are. A new texture, since GPU storage can't be resized.
+  private grow() {
+    const data = new Uint8Array(ATLAS_WIDTH * this.height * 2);
+    data.set(this.data);
+    this.data = data;
+    this.height *= 2;
+    this.map.value.dispose();
+    this.map.value = this.createTexture();
+    this.size.value.set(ATLAS_WIDTH, this.height);
+  }
+
+  private createTexture(): THREE.DataTexture {
+    const texture = new THREE.DataTexture(this.data, ATLAS_WIDTH, this.height, THREE.RedFormat, THREE.UnsignedByteType);
+    texture.minFilter = THREE.LinearFilter;
+    texture.magFilter = THREE.LinearFilter;
+    texture.generateMipmaps = false;
+    texture.needsUpdate = true;
+    return texture;
+  }
+}
+
+// Exact squared Euclidean distance transform in place (Felzenszwalb & Huttenlocher), columns then rows
+function distanceTransform(grid: Float64Array, width: number, height: number) {
+  const n = Math.max(width, height);
+  const f = new Float64Array(n);
+  const d = new Float64Array(n);
+  const v = new Uint16Array(n);
+  const z = new Float64Array(n + 1);
+
+  for (let x = 0; x < width; x++) {
+    for (let y = 0; y < height; y++) f[y] = grid[y * width + x];
+    distanceTransform1D(f, d, v, z, height);
+    for (let y = 0; y < height; y++) grid[y * width + x] = d[y];
+  }
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) f[x] = grid[y * width + x];
+    distanceTransform1D(f, d, v, z, width);
+    for (let x = 0; x < width; x++) grid[y * width + x] = d[x];
+  }
+}
+
+// Lower envelope of the parabolas rooted at f
+function distanceTransform1D(f: Float64Array, d: Float64Array, v: Uint16Array, z: Float64Array, n: number) {
+  v[0] = 0;
+  z[0] = -INF;
+  z[1] = INF;
+  let k = 0;
+  for (let q = 1; q < n; q++) {
+    let r = v[k];
+    let s = (f[q] - f[r] + q * q - r * r) / (2 * (q - r));
+    while (s <= z[k]) {
+      k--;
+      r = v[k];
+      s = (f[q] - f[r] + q * q - r * r) / (2 * (q - r));
+    }
+    k++;
+    v[k] = q;
+    z[k] = s;
+    z[k + 1] = INF;
+  }
+  k = 0;
+  for (let q = 0; q < n; q++) {
+    while (z[k + 1] < q) k++;
+    const r = v[k];
+    d[q] = (q - r) * (q - r) + f[r];
+  }
+}
+
+// Shader changes that make a SpriteMaterial or MeshBasicMaterial draw from a glyph atlas: uvs are in
+// atlas pixels, background quads have negative uvs, and glyphs are cut at the field's 0.5 edge,
+// antialiased over a pixel. Billboarding, color and color space stay three's own.
+const vertexPars = /* glsl */ `
+varying vec2 vSdfUv;
+`;
+
+const fragmentPars = /* glsl */ `
+uniform sampler2D sdfMap;
+uniform vec2 sdfSize;
+uniform vec4 sdfBackground;
+varying vec2 vSdfUv;
+`;
+
+const fragmentMap = /* glsl */ `
+  // Derivatives outside the branch, where they are well defined
+  float sdfField = texture2D(sdfMap, vSdfUv / sdfSize).r;
+  float sdfSmoothing = max(fwidth(sdfField) * 0.7, 1e-4);
+
+  if (vSdfUv.x < 0.0) {
+    diffuseColor = sdfBackground;
+  } else {
+    diffuseColor.a *= smoothstep(0.5 - sdfSmoothing, 0.5 + sdfSmoothing, sdfField);
+    if (diffuseColor.a <= 0.0) discard;
+  }
+`;
+
+// One program for every label material; each gets its own uniforms when it compiles
+function useAtlas(material: THREE.SpriteMaterial | THREE.MeshBasicMaterial, atlas: GlyphAtlas, background: THREE.Vector4) {
+  material.onBeforeCompile = shader => {
+    shader.uniforms.sdfMap = atlas.map;
+    shader.uniforms.sdfSize = atlas.size;
+    shader.uniforms.sdfBackground = { value: background };
+    shader.vertexShader = vertexPars + shader.vertexShader.replace('#include <uv_vertex>', '#include <uv_vertex>\n  vSdfUv = uv;');
+    shader.fragmentShader = fragmentPars + shader.fragmentShader.replace('#include <map_fragment>', fragmentMap);
+  };
+  material.customProgramCacheKey = () => 'sdf-text';
+}
+
+// Labels drawn from one shared signed distance field atlas per font: no texture per label, and edges
+// stay sharp close up. Each label is a THREE.Sprite (so it picks and positions like one) whose
+// geometry holds a quad per glyph; planar labels are a mesh with the same geometry.
+// Needs WebGL 2 (single-channel texture, fwidth).
+export class SDFTextBackend implements TextBackend {
+  private atlases = new Map<string, GlyphAtlas>();
+
+  public createLabel(text: string, style: TextLabelStyle): THREE.Sprite {
+    const { geometry, atlas, background, scale } = this.buildLabel(text, style);
+    const material = new THREE.SpriteMaterial({ color: style.color, transparent: true, depthTest: false });
+    useAtlas(material, atlas, background);
+
+    // The sprite shader places any geometry around the sprite's center, and raycasting only
+    // uses center and scale, so the glyph quads replace the default quad
+    const sprite = new THREE.Sprite(material);
+    sprite.geometry = geometry;
+    sprite.scale.copy(scale);
+    return sprite;
+  }
+
+  public createPlanarLabel(text: string, style: TextLabelStyle): THREE.Mesh {
+    const { geometry, atlas, background, scale } = this.buildLabel(text, style);
+    const material = new THREE.MeshBasicMaterial({ color: style.color, transparent: true, depthTest: false, side: THREE.DoubleSide });
+    useAtlas(material, atlas, background);
+
+    const mesh = new THREE.Mesh(geometry, material);
+    mesh.scale.copy(scale);
+    return mesh;
+  }
+
+  public disposeLabel(label: THREE.Sprite | THREE.Mesh) {
+    label.geometry.dispose();
+    (label.material as THREE.Material).dispose();
+  }
+
+  // Frees every atlas; labels created before can't be drawn afterwards
+  public dispose() {
+    this.atlases.forEach(atlas => atlas.dispose());
+    this.atlases.clear();
+  }
+
+  // Glyph quads of a label in a unit box (-0.5..0.5) that `scale` stretches to world size,
+  // with the atlas and background color to draw them with
+  private buildLabel(text: string, style: TextLabelStyle) {
+    const atlas = this.getAtlas(style.fontFamily, style.fontWeight);
+    const lines = text.split('\n').map(line => [...line].map(char => atlas.getGlyph(char)));
+    const lineWidths = lines.map(glyphs => glyphs.reduce((sum, glyph) => sum + glyph.advance, 0));
+
+    // The canvas backend's box, in atlas pixels
+    const width = Math.max(0, ...lineWidths) + PADDING * 2;
+    const height = LINE_HEIGHT * lines.length + PADDING * 2;
+
+    // Quads in label space (-0.5..0.5 over the box) with uvs in atlas pixels, or none for the background
+    const positions: number[] = [];
+    const uvs: number[] = [];
+    const indices: number[] = [];
+    const addQuad = (left: number, top: number, w: number, h: number, glyph?: Glyph) => {
+      const first = positions.length / 3;
+      const x0 = left / width - 0.5;
+      const x1 = (left + w) / width - 0.5;
+      const y0 = 0.5 - top / height;
+      const y1 = 0.5 - (top + h) / height;
+      positions.push(x0, y0, 0, x1, y0, 0, x0, y1, 0, x1, y1, 0);
+      if (glyph) {
+        const { x: u, y: v } = glyph;
+        uvs.push(u, v, u + w, v, u, v + h, u + w, v + h);
+      } else {
+        uvs.push(-1, -1, -1, -1, -1, -1, -1, -1);
+      }
+      indices.push(first, first + 2, first + 1, first + 1, first + 2, first + 3);
+    };
+
+    if (style.background) addQuad(0, 0, width, height); // Drawn first, under the glyphs
+    lines.forEach((glyphs, i) => {
+      let pen = PADDING + (width - PADDING * 2 - lineWidths[i]) / 2; // Centered lines
+      const top = PADDING + i * LINE_HEIGHT - BUFFER;
+      for (const glyph of glyphs) {
+        addQuad(pen - BUFFER, top, glyph.width, LINE_HEIGHT + BUFFER * 2, glyph);
+        pen += glyph.advance;
+      }
+    });
+
+    const geometry = new THREE.BufferGeometry();
+    geometry.setAttribute('position', new THREE.Float32BufferAttribute(positions, 3));
+    geometry.setAttribute('uv', new THREE.Float32BufferAttribute(uvs, 2));
+    geometry.setIndex(indices);
+
+    const color = new THREE.Color(style.background ?? '#ffffff');
+    const background = new THREE.Vector4(color.r, color.g, color.b, style.background ? 1 : 0);
+
+    // Same world size as the canvas backend: one line is 0.5 * scale tall
+    const lineScale = (0.5 * style.scale) / (LINE_HEIGHT + PADDING * 2);
+    const scale = new THREE.Vector3(width * lineScale, height * lineScale, 1);
+    return { geometry, atlas, background, scale };
+  }
+
+  private getAtlas(fontFamily: string, fontWeight: string): GlyphAtlas {
+    const key = `${fontWeight} ${fontFamily}`;
+    let atlas = this.atlases.get(key);
+    if (!atlas) {
+      atlas = new GlyphAtlas(fontFamily, fontWeight);
+      this.atlases.set(key, atlas);
+    }
+    return atlas;
+  }
+}
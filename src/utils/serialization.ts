@@ -0,0 +1,360 @@
+import * as THREE from 'three';
+import {
+  AnchorKey,
+  CPlane,
+  DimensionAnchors,
+  DimensionData,
+  DimensionStyle,
+  DimensionType,
+  FractionDenominator,
+  OrdinateAxis,
+  SerializedAnchor,
+  SerializedCPlane,
+  SerializedDimension,
+  SerializedNamedCPlane,
+  SerializedVector3
+} from '../types';
+import { hasUnitFormatter } from './units';
+import { hasTextBackend } from './text';
+import { createCPlane } from './geometry';
+
+// Bump when the schema changes in a way older loaders cannot read
+export const SERIALIZATION_VERSION = 1;
+
+const DIMENSION_TYPES: DimensionType[] = ['linear', 'aligned', 'angle', 'leader', 'radius', 'diameter', 'ordinate', 'area'];
+const ANCHOR_KEYS: AnchorKey[] = ['start', 'end', 'angleP2'];
+const ASSOCIATION_TYPES: SerializedAnchor['type'][] = ['vertex', 'midpoint', 'edge', 'centroid'];
+
+// Finds the object an anchor referred to when it was saved
+export type ObjectResolver = (uuid: string, name?: string) => THREE.Object3D | undefined;
+
+// One type guard per style key, so adding a key to DimensionStyle without a validator fails to compile
+type StyleValidators = { [K in keyof DimensionStyle]: (value: unknown) => value is DimensionStyle[K] };
+
+const STYLE_VALIDATORS: StyleValidators = {
+  color: (v): v is string => typeof v === 'string',
+  fontSize: (v): v is number => isFiniteNumber(v) && v > 0,
+  scale: (v): v is number => isFiniteNumber(v) && v > 0,
+  sizeMode: (v): v is DimensionStyle['sizeMode'] => v === 'world' || v === 'screen',
+  screenScale: (v): v is number => isFiniteNumber(v) && v > 0,
+  depthTest: (v): v is boolean => typeof v === 'boolean',
+  offset: (v): v is number => isFiniteNumber(v),
+  units: (v): v is string => typeof v === 'string' && hasUnitFormatter(v),
+  precision: (v): v is number | null => v === null || (Number.isInteger(v) && (v as number) >= 0 && (v as number) <= 10),
+  anglePrecision: (v): v is number => Number.isInteger(v) && (v as number) >= 0 && (v as number) <= 10,
+  fractionDenominator: (v): v is FractionDenominator => [2, 4, 8, 16, 32, 64].includes(v as number),
+  suppressLeadingZeros: (v): v is boolean => typeof v === 'boolean',
+  suppressTrailingZeros: (v): v is boolean => typeof v === 'boolean',
+  modelUnitScale: (v): v is number => isFiniteNumber(v) && v > 0,
+  textBgColor: (v): v is string | null => v === null || typeof v === 'string',
+  textMode: (v): v is DimensionStyle['textMode'] => v === 'horizontal' || v === 'aligned',
+  fontFamily: (v): v is string => typeof v === 'string' && v.trim() !== '',
+  fontWeight: (v): v is string => typeof v === 'string' && v.trim() !== '',
+  textBackend: (v): v is string => typeof v === 'string' && hasTextBackend(v),
+  showPerimeter: (v): v is boolean => typeof v === 'boolean'
+};
+
+// Validates value[key] and copies it into `style`; false if it is invalid
+function setStyleKey<K extends keyof DimensionStyle>(style: Partial<DimensionStyle>, key: K, value: unknown): boolean {
+  if (!STYLE_VALIDATORS[key](value)) return false;
+  style[key] = value;
+  return true;
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+export function serializeVector3(v: THREE.Vector3): SerializedVector3 {
+  return [v.x, v.y, v.z];
+}
+
+export function parseVector3(value: unknown): THREE.Vector3 | null {
+  if (!Array.isArray(value) || value.length !== 3 || !value.every(isFiniteNumber)) return null;
+  return new THREE.Vector3(value[0], value[1], value[2]);
+}
+
+// undefined if absent, null if malformed
+function parseVectorList(value: unknown, minLength: number, multipleOf: number): THREE.Vector3[] | undefined | null {
+  if (value === undefined) return undefined;
+  if (!Array.isArray(value) || value.length < minLength || value.length % multipleOf !== 0) return null;
+  const vectors = value.map(parseVector3);
+  return vectors.every(v => v !== null) ? (vectors as THREE.Vector3[]) : null;
+}
+
+export function serializeDimension(data: DimensionData): SerializedDimension {
+  const json: SerializedDimension = {
+    id: data.id,
+    type: data.type,
+    start: serializeVector3(data.start),
+    end: serializeVector3(data.end),
+    offsetPoint: serializeVector3(data.offsetPoint)
+  };
+  if (data.angleP2) json.angleP2 = serializeVector3(data.angleP2);
+  if (data.text !== undefined) json.text = data.text;
+  if (data.axis) json.axis = serializeVector3(data.axis);
+  if (data.normal) json.normal = serializeVector3(data.normal);
+  if (data.datum) json.datum = serializeCPlane(data.datum);
+  if (data.ordinateAxis) json.ordinateAxis = data.ordinateAxis;
+  if (data.points) json.points = data.points.map(serializeVector3);
+  if (data.triangles) json.triangles = data.triangles.map(serializeVector3);
+  if (data.groupId !== undefined) json.groupId = data.groupId;
+  if (data.style) json.style = { ...data.style };
+
+  if (data.anchors) {
+    const anchors: Partial<Record<AnchorKey, SerializedAnchor>> = {};
+    for (const key of ANCHOR_KEYS) {
+      const anchor = data.anchors[key];
+      if (!anchor) continue;
+      const { object, type, indices, t, instanceId } = anchor.association;
+      anchors[key] = { object: object.uuid, type, indices: [...indices] };
+      if (object.name) anchors[key]!.objectName = object.name;
+      if (t !== undefined) anchors[key]!.t = t;
+      if (instanceId !== undefined) anchors[key]!.instanceId = instanceId;
+    }
+    json.anchors = anchors;
+  }
+  return json;
+}
+
+// Anchors that can't be resolved are reported and dropped; the dimension itself is kept
+function parseAnchors(value: unknown, label: string, errors: string[], resolveObject?: ObjectResolver): DimensionAnchors | undefined {
+  if (value === undefined) return undefined;
+  if (!isObject(value)) {
+    errors.push(`${label}.anchors: not an object`);
+    return undefined;
+  }
+
+  const anchors: DimensionAnchors = {};
+  for (const key of ANCHOR_KEYS) {
+    const entry = value[key];
+    if (entry === undefined) continue;
+
+    if (
+      !isObject(entry) ||
+      typeof entry.object !== 'string' ||
+      !ASSOCIATION_TYPES.includes(entry.type as SerializedAnchor['type']) ||
+      !Array.isArray(entry.indices) ||
+      !entry.indices.every(i => Number.isInteger(i) && i >= 0) ||
+      (entry.t !== undefined && !isFiniteNumber(entry.t)) ||
+      (entry.instanceId !== undefined && !(Number.isInteger(entry.instanceId) && (entry.instanceId as number) >= 0))
+    ) {
+      errors.push(`${label}.anchors.${key}: malformed anchor`);
+      continue;
+    }
+
+    const object = resolveObject?.(entry.object, typeof entry.objectName === 'string' ? entry.objectName : undefined);
+    if (!object) {
+      errors.push(`${label}.anchors.${key}: object ${entry.object} not found, point kept unassociated`);
+      continue;
+    }
+
+    anchors[key] = {
+      association: {
+        object,
+        type: entry.type as SerializedAnchor['type'],
+        indices: entry.indices as number[],
+        t: entry.t as number | undefined,
+        instanceId: entry.instanceId as number | undefined
+      },
+      orphaned: false
+    };
+  }
+  return Object.keys(anchors).length > 0 ? anchors : undefined;
+}
+
+// Returns null (and pushes a message to `errors`) if the entry is malformed
+export function parseDimension(value: unknown, label: string, errors: string[], resolveObject?: ObjectResolver): DimensionData | null {
+  if (!isObject(value)) {
+    errors.push(`${label}: not an object`);
+    return null;
+  }
+
+  const type = value.type as DimensionType;
+  if (!DIMENSION_TYPES.includes(type)) {
+    errors.push(`${label}: unknown type ${JSON.stringify(value.type)}`);
+    return null;
+  }
+
+  const start = parseVector3(value.start);
+  const end = parseVector3(value.end);
+  const offsetPoint = parseVector3(value.offsetPoint);
+  if (!start || !end || !offsetPoint) {
+    errors.push(`${label}: start, end and offsetPoint must be [x, y, z] number arrays`);
+    return null;
+  }
+
+  let angleP2: THREE.Vector3 | undefined;
+  if (value.angleP2 !== undefined) {
+    const parsed = parseVector3(value.angleP2);
+    if (!parsed) {
+      errors.push(`${label}: angleP2 must be an [x, y, z] number array`);
+      return null;
+    }
+    angleP2 = parsed;
+  }
+  if (type === 'angle' && !angleP2) {
+    errors.push(`${label}: angle dimension is missing angleP2`);
+    return null;
+  }
+
+  if (value.text !== undefined && typeof value.text !== 'string') {
+    errors.push(`${label}: text must be a string`);
+    return null;
+  }
+
+  let axis: THREE.Vector3 | undefined;
+  let normal: THREE.Vector3 | undefined;
+  for (const key of ['axis', 'normal'] as const) {
+    if (value[key] === undefined) continue;
+    const parsed = parseVector3(value[key]);
+    if (!parsed || parsed.lengthSq() < 1e-12) {
+      errors.push(`${label}: ${key} must be a non-zero [x, y, z] number array`);
+      return null;
+    }
+    if (key === 'axis') axis = parsed.normalize();
+    else normal = parsed.normalize();
+  }
+
+  let datum: CPlane | undefined;
+  if (value.datum !== undefined) {
+    const datumErrors: string[] = [];
+    datum = parseCPlane(value.datum, datumErrors) ?? undefined;
+    if (!datum) {
+      errors.push(`${label}: datum must be a CPlane with origin and non-zero normal`);
+      return null;
+    }
+  }
+  if (type === 'ordinate' && !datum) {
+    errors.push(`${label}: ordinate dimension is missing its datum`);
+    return null;
+  }
+  if (value.ordinateAxis !== undefined && value.ordinateAxis !== 'x' && value.ordinateAxis !== 'y') {
+    errors.push(`${label}: ordinateAxis must be 'x' or 'y'`);
+    return null;
+  }
+
+  const points = parseVectorList(value.points, 3, 1);
+  const triangles = parseVectorList(value.triangles, 3, 3);
+  if (points === null || triangles === null) {
+    errors.push(`${label}: points must be at least 3 and triangles a multiple of 3 [x, y, z] number arrays`);
+    return null;
+  }
+  if (type === 'area' && !points && !triangles) {
+    errors.push(`${label}: area dimension needs points or triangles`);
+    return null;
+  }
+
+  if (value.groupId !== undefined && !(Number.isInteger(value.groupId) && (value.groupId as number) >= 0)) {
+    errors.push(`${label}: groupId must be a non-negative integer`);
+    return null;
+  }
+
+  // Invalid style overrides are reported and dropped, like the global style
+  let style: Partial<DimensionStyle> | undefined;
+  if (value.style !== undefined) {
+    const styleErrors: string[] = [];
+    style = parseStyle(value.style, styleErrors);
+    errors.push(...styleErrors.map(e => `${label}.${e}`));
+    if (Object.keys(style).length === 0) style = undefined;
+  }
+
+  return {
+    id: Number.isInteger(value.id) ? (value.id as number) : -1,
+    type,
+    start,
+    end,
+    offsetPoint,
+    angleP2,
+    text: value.text as string | undefined,
+    axis,
+    normal,
+    datum,
+    ordinateAxis: value.ordinateAxis as OrdinateAxis | undefined,
+    points,
+    triangles,
+    groupId: value.groupId as number | undefined,
+    style,
+    anchors: parseAnchors(value.anchors, label, errors, resolveObject)
+  };
+}
+
+// Keeps only valid keys; invalid ones are reported and left at their current value
+export function parseStyle(value: unknown, errors: string[]): Partial<DimensionStyle> {
+  const style: Partial<DimensionStyle> = {};
+  if (value === undefined) return style;
+  if (!isObject(value)) {
+    errors.push('style: not an object');
+    return style;
+  }
+
+  for (const key of Object.keys(STYLE_VALIDATORS) as (keyof DimensionStyle)[]) {
+    if (!(key in value)) continue;
+    if (!setStyleKey(style, key, value[key])) {
+      errors.push(`style.${key}: invalid value ${JSON.stringify(value[key])}`);
+    }
+  }
+  return style;
+}
+
+export function serializeCPlane(cplane: CPlane): SerializedCPlane {
+  return {
+    origin: serializeVector3(cplane.origin),
+    normal: serializeVector3(cplane.normal),
+    xAxis: serializeVector3(cplane.xAxis)
+  };
+}
+
+export function parseCPlane(value: unknown, errors: string[], label: string = 'cplane'): CPlane | null {
+  if (value === undefined) return null;
+  const origin = isObject(value) ? parseVector3(value.origin) : null;
+  const normal = isObject(value) ? parseVector3(value.normal) : null;
+  if (!isObject(value) || !origin || !normal || normal.lengthSq() < 1e-12) {
+    errors.push(`${label}: origin and normal must be [x, y, z] number arrays with a non-zero normal`);
+    return null;
+  }
+
+  // Older files have no X axis: derive it from the normal as before
+  let xAxis: THREE.Vector3 | undefined;
+  if (value.xAxis !== undefined) {
+    const parsed = parseVector3(value.xAxis);
+    if (!parsed || parsed.clone().normalize().cross(normal.clone().normalize()).lengthSq() < 1e-12) {
+      errors.push(`${label}: xAxis must be an [x, y, z] number array not along the normal`);
+      return null;
+    }
+    xAxis = parsed;
+  }
+  return createCPlane(origin, normal, xAxis);
+}
+
+export function serializeNamedCPlanes(cplanes: ReadonlyMap<string, CPlane>): SerializedNamedCPlane[] {
+  return [...cplanes].map(([name, cplane]) => ({ name, ...serializeCPlane(cplane) }));
+}
+
+// Entries without a name, with a duplicate name or with a bad plane are reported and skipped
+export function parseNamedCPlanes(value: unknown, errors: string[]): Map<string, CPlane> {
+  const cplanes = new Map<string, CPlane>();
+  if (!Array.isArray(value)) {
+    errors.push('cplanes: not an array');
+    return cplanes;
+  }
+
+  value.forEach((entry, i) => {
+    const name = isObject(entry) ? entry.name : undefined;
+    if (typeof name !== 'string' || !name.trim()) {
+      errors.push(`cplanes[${i}]: name must be a non-empty string`);
+      return;
+    }
+    if (cplanes.has(name)) {
+      errors.push(`cplanes[${i}]: duplicate name ${JSON.stringify(name)}`);
+      return;
+    }
+    const cplane = parseCPlane(entry, errors, `cplanes[${i}]`);
+    if (cplane) cplanes.set(name, cplane);
+  });
+  return cplanes;
+}
@@ -0,0 +1,62 @@
+import * as THREE from 'three';
+import { SnapType } from '../types';
+
+const SIZE = 64;
+
+// Marker drawn at a snap point, one shape per snap type (CAD object snap style):
+// vertex square, midpoint triangle, centroid circle, edge hourglass, perpendicular ⊥,
+// intersection X, extension +, face diamond
+export function createSnapGlyphTexture(type: SnapType, color: string = '#00ff00'): THREE.CanvasTexture {
+  const canvas = document.createElement('canvas');
+  canvas.width = SIZE;
+  canvas.height = SIZE;
+  const context = canvas.getContext('2d')!;
+  context.strokeStyle = color;
+  context.lineWidth = 6;
+  context.lineJoin = 'miter';
+
+  const lo = 8;
+  const hi = SIZE - 8;
+  const mid = SIZE / 2;
+  const path = (points: [number, number][], close: boolean = true) => {
+    context.beginPath();
+    points.forEach(([x, y], i) => (i === 0 ? context.moveTo(x, y) : context.lineTo(x, y)));
+    if (close) context.closePath();
+    context.stroke();
+  };
+
+  switch (type) {
+    case 'vertex':
+      path([[lo, lo], [hi, lo], [hi, hi], [lo, hi]]);
+      break;
+    case 'midpoint':
+      path([[mid, lo], [hi, hi], [lo, hi]]);
+      break;
+    case 'centroid':
+      context.beginPath();
+      context.arc(mid, mid, mid - lo, 0, Math.PI * 2);
+      context.stroke();
+      break;
+    case 'edge':
+      path([[lo, lo], [hi, lo], [lo, hi], [hi, hi]]);
+      break;
+    case 'perpendicular':
+      path([[lo, lo], [lo, hi], [hi, hi]], false);
+      path([[lo, mid], [mid, mid], [mid, hi]], false);
+      break;
+    case 'intersection':
+      path([[lo, lo], [hi, hi]], false);
+      path([[hi, lo], [lo, hi]], false);
+      break;
+    case 'extension':
+      path([[mid, lo], [mid, hi]], false);
+      path([[lo, mid], [hi, mid]], false);
+      break;
+    default:
+      path([[mid, lo], [hi, mid], [mid, hi], [lo, mid]]);
+  }
+
+  const texture = new THREE.CanvasTexture(canvas);
+  texture.minFilter = THREE.LinearFilter;
+  return texture;
+}
@@ -1,7 +1,52 @@
 import * as THREE from 'three';
+import { TextBackend, TextBackendName } from '../types';
+import { SDFTextBackend } from './sdfText';
+import { Registry } from './registry';
 
-export function createTextSprite(message: string, color: string = '#000000', scale: number = 1, bgColor: string | null = null): THREE.Sprite {
-  const fontFace = 'Arial';
+export function createTextSprite(
+  message: string,
+  color: string = '#000000',
+  scale: number = 1,
+  bgColor: string | null = null,
+  fontFamily: string = 'Arial',
+  fontWeight: string = 'bold'
+): THREE.Sprite {
+  const { texture, width, height } = createTextTexture(message, color, scale, bgColor, fontFamily, fontWeight);
+  const spriteMaterial = new THREE.SpriteMaterial({ map: texture, depthTest: false, transparent: true });
+  
+  const sprite = new THREE.Sprite(spriteMaterial);
+  sprite.scale.set(width, height, 1);
+  
+  return sprite;
+}
+
+// The same label as a flat, two-sided plane in its local XY plane, for 'aligned' text
+export function createTextMesh(
+  message: string,
+  color: string = '#000000',
+  scale: number = 1,
+  bgColor: string | null = null,
+  fontFamily: string = 'Arial',
+  fontWeight: string = 'bold'
+): THREE.Mesh<THREE.PlaneGeometry, THREE.MeshBasicMaterial> {
+  const { texture, width, height } = createTextTexture(message, color, scale, bgColor, fontFamily, fontWeight);
+  const material = new THREE.MeshBasicMaterial({ map: texture, depthTest: false, transparent: true, side: THREE.DoubleSide });
+  
+  const mesh = new THREE.Mesh(new THREE.PlaneGeometry(1, 1), material);
+  mesh.scale.set(width, height, 1);
+  
+  return mesh;
+}
+
+// Draws the message into a canvas texture; width and height are the label's world size
+function createTextTexture(
+  message: string,
+  color: string,
+  scale: number,
+  bgColor: string | null,
+  fontFamily: string,
+  fontWeight: string
+): { texture: THREE.CanvasTexture; width: number; height: number } {
   const fontSize = 64; 
   const borderThickness = 4;
   const padding = 8;
@@ -9,13 +54,15 @@ export function createTextSprite(message: string, color: string = '#000000', sca
   const canvas = document.createElement('canvas');
   const context = canvas.getContext('2d')!;
   
-  // Dynamic size
-  context.font = `Bold ${fontSize}px ${fontFace}`;
-  const metrics = context.measureText(message);
-  const textWidth = metrics.width;
+  // Dynamic size, one row per line of the message
+  const lines = message.split('\n');
+  const lineHeight = fontSize * 1.4;
+  const font = `${fontWeight} ${fontSize}px ${fontFamily}`;
+  context.font = font;
+  const textWidth = Math.max(...lines.map(line => context.measureText(line).width));
   
   canvas.width = textWidth + (borderThickness + padding) * 2;
-  canvas.height = fontSize * 1.4 + (borderThickness + padding) * 2;
+  canvas.height = lineHeight * lines.length + (borderThickness + padding) * 2;
   
   // Background
   if (bgColor) {
@@ -24,22 +71,52 @@ export function createTextSprite(message: string, color: string = '#000000', sca
   }
   
   // Text
-  context.font = `Bold ${fontSize}px ${fontFace}`;
+  context.font = font;
   context.fillStyle = color;
   context.textAlign = 'center';
   context.textBaseline = 'middle';
   
-  context.fillText(message, canvas.width / 2, canvas.height / 2);
+  const firstLineY = canvas.height / 2 - (lineHeight * (lines.length - 1)) / 2;
+  lines.forEach((line, i) => context.fillText(line, canvas.width / 2, firstLineY + i * lineHeight));
   
   const texture = new THREE.CanvasTexture(canvas);
   texture.minFilter = THREE.LinearFilter;
   
-  const spriteMaterial = new THREE.SpriteMaterial({ map: texture, depthTest: false, transparent: true });
-  
-  const sprite = new THREE.Sprite(spriteMaterial);
-  
-  const baseScale = 0.5 * scale; 
-  sprite.scale.set(baseScale * (canvas.width / canvas.height), baseScale, 1);
-  
-  return sprite;
+  // Each line is as tall as a single-line label
+  const baseScale = 0.5 * scale * (canvas.height / (lineHeight + (borderThickness + padding) * 2));
+  return { texture, width: baseScale * (canvas.width / canvas.height), height: baseScale };
+}
+
+// One canvas and texture per label: simple and exact, but heavy with many labels and blurry up close
+export const canvasTextBackend: TextBackend = {
+  createLabel: (text, style) => createTextSprite(text, style.color, style.scale, style.background, style.fontFamily, style.fontWeight),
+  createPlanarLabel: (text, style) => createTextMesh(text, style.color, style.scale, style.background, style.fontFamily, style.fontWeight),
+  disposeLabel: label => {
+    const material = label.material as THREE.SpriteMaterial | THREE.MeshBasicMaterial;
+    material.map?.dispose();
+    material.dispose();
+    if (label instanceof THREE.Mesh) label.geometry.dispose();
+  }
+};
+
+const backends = new Registry<TextBackend>('text backend', [
+  ['sdf', new SDFTextBackend()],
+  ['canvas', canvasTextBackend]
+]);
+
+export function registerTextBackend(name: string, backend: TextBackend) {
+  backends.register(name, backend);
+}
+
+export function hasTextBackend(name: string): boolean {
+  return backends.has(name);
+}
+
+export function getTextBackendNames(): (TextBackendName | string)[] {
+  return backends.getNames();
+}
+
+// Unknown names fall back to the canvas backend
+export function getTextBackend(name: string): TextBackend {
+  return backends.get(name) ?? canvasTextBackend;
 }
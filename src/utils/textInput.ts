@@ -0,0 +1,67 @@
+import { TextInputProvider } from '../types';
+
+// Default TextInputProvider: a textarea floating over `element` (the renderer's canvas) at the
+// text position. Enter finishes, Shift+Enter starts a new line, Escape cancels, clicking away finishes.
+export function createOverlayTextInput(element: HTMLElement): TextInputProvider {
+  return ({ initialText, position, camera, signal }) => new Promise(resolve => {
+    const doc = element.ownerDocument;
+    const textarea = doc.createElement('textarea');
+    textarea.value = initialText;
+    textarea.rows = Math.max(1, initialText.split('\n').length);
+
+    // Screen position of the text
+    const rect = element.getBoundingClientRect();
+    const ndc = position.clone().project(camera);
+    const x = rect.left + ((ndc.x + 1) / 2) * rect.width;
+    const y = rect.top + ((1 - ndc.y) / 2) * rect.height;
+
+    Object.assign(textarea.style, {
+      position: 'fixed',
+      left: `${x}px`,
+      top: `${y}px`,
+      transform: 'translate(-50%, -50%)',
+      minWidth: '8em',
+      font: 'bold 14px Arial, sans-serif',
+      padding: '4px 6px',
+      border: '1px solid #0088ff',
+      borderRadius: '3px',
+      background: 'rgba(255, 255, 255, 0.95)',
+      resize: 'none',
+      zIndex: '1000'
+    });
+
+    let done = false;
+    const finish = (text: string | null) => {
+      if (done) return;
+      done = true;
+      signal.removeEventListener('abort', onAbort);
+      textarea.remove();
+      resolve(text);
+    };
+    const onAbort = () => finish(null);
+
+    textarea.addEventListener('keydown', event => {
+      event.stopPropagation(); // Keep shortcuts (Delete, letters...) away from the app while typing
+      if (event.key === 'Escape') {
+        event.preventDefault();
+        finish(null);
+      } else if (event.key === 'Enter' && !event.shiftKey) {
+        event.preventDefault();
+        finish(textarea.value);
+      }
+    });
+    textarea.addEventListener('input', () => {
+      textarea.rows = Math.max(1, textarea.value.split('\n').length);
+    });
+    textarea.addEventListener('blur', () => finish(textarea.value));
+    signal.addEventListener('abort', onAbort);
+
+    if (signal.aborted) {
+      finish(null);
+      return;
+    }
+    doc.body.appendChild(textarea);
+    textarea.focus();
+    textarea.select();
+  });
+}
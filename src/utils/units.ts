@@ -0,0 +1,198 @@
+import * as THREE from 'three';
+import { DimensionStyle, UnitFormatter, UnitSystem } from '../types';
+import { Registry } from './registry';
+import { debugWarn } from './log';
+
+const METERS_PER_INCH = 0.0254;
+
+// Decimal places used when style.precision is null
+const DEFAULT_PRECISION: Record<string, number> = {
+  m: 2,
+  cm: 1,
+  mm: 0,
+  ft: 2,
+  in: 2,
+  engineering: 3
+};
+
+function getPrecision(style: DimensionStyle): number {
+  return style.precision ?? DEFAULT_PRECISION[style.units] ?? 2;
+}
+
+// Fixed-point number with the style's zero suppression applied
+export function formatDecimal(value: number, precision: number, style: DimensionStyle): string {
+  let text = Math.abs(value).toFixed(Math.max(0, precision));
+  if (style.suppressTrailingZeros && text.includes('.')) {
+    text = text.replace(/\.?0+$/, '');
+  }
+  if (style.suppressLeadingZeros && text.startsWith('0.')) {
+    text = text.slice(1);
+  }
+  const isZero = Number(text) === 0;
+  return value < 0 && !isZero ? `-${text}` : text;
+}
+
+function gcd(a: number, b: number): number {
+  return b === 0 ? a : gcd(b, a % b);
+}
+
+// Whole inches plus a reduced fraction, e.g. "6 3/8"
+function formatFractionalInches(inches: number, denominator: number): string {
+  const steps = Math.round(inches * denominator);
+  const whole = Math.floor(steps / denominator);
+  const remainder = steps - whole * denominator;
+  if (remainder === 0) return `${whole}`;
+
+  const divisor = gcd(remainder, denominator);
+  const fraction = `${remainder / divisor}/${denominator / divisor}`;
+  return whole === 0 ? fraction : `${whole} ${fraction}`;
+}
+
+// Feet and inches, e.g. 12'-6 3/8" or 12'-6.375"
+function formatFeetInches(meters: number, style: DimensionStyle, fractional: boolean): string {
+  const sign = meters < 0 ? '-' : '';
+  const totalInches = Math.abs(meters) / METERS_PER_INCH;
+
+  // Round once on the total so the inches can carry into the feet
+  let feet: number;
+  let inches: number;
+  if (fractional) {
+    const steps = Math.round(totalInches * style.fractionDenominator);
+    const stepsPerFoot = 12 * style.fractionDenominator;
+    feet = Math.floor(steps / stepsPerFoot);
+    inches = (steps - feet * stepsPerFoot) / style.fractionDenominator;
+  } else {
+    const precision = getPrecision(style);
+    const rounded = Number(totalInches.toFixed(precision));
+    feet = Math.floor(rounded / 12);
+    inches = Number((rounded - feet * 12).toFixed(precision));
+  }
+
+  const inchText = fractional
+    ? formatFractionalInches(inches, style.fractionDenominator)
+    : formatDecimal(inches, getPrecision(style), { ...style, suppressLeadingZeros: false });
+
+  if (feet === 0 && style.suppressLeadingZeros) return `${sign}${inchText}"`;
+  if (inches === 0 && style.suppressTrailingZeros) return `${sign}${feet}'`;
+  return `${sign}${feet}'-${inchText}"`;
+}
+
+const formatters = new Registry<UnitFormatter>('unit format', [
+  ['m', (m, style) => formatDecimal(m, getPrecision(style), style) + 'm'],
+  ['cm', (m, style) => formatDecimal(m * 100, getPrecision(style), style) + 'cm'],
+  ['mm', (m, style) => formatDecimal(m * 1000, getPrecision(style), style)],
+  ['ft', (m, style) => formatDecimal(m / (METERS_PER_INCH * 12), getPrecision(style), style) + "'"],
+  ['in', (m, style) => formatDecimal(m / METERS_PER_INCH, getPrecision(style), style) + '"'],
+  ['architectural', (m, style) => formatFeetInches(m, style, true)],
+  ['engineering', (m, style) => formatFeetInches(m, style, false)],
+  ['fractional', (m, style) => {
+    const sign = m < 0 ? '-' : '';
+    return `${sign}${formatFractionalInches(Math.abs(m) / METERS_PER_INCH, style.fractionDenominator)}"`;
+  }]
+]);
+
+// Add (or replace) a unit format that can then be used as style.units
+export function registerUnitFormatter(name: string, formatter: UnitFormatter) {
+  formatters.register(name, formatter);
+}
+
+export function hasUnitFormatter(name: string): boolean {
+  return formatters.has(name);
+}
+
+export function getUnitNames(): (UnitSystem | string)[] {
+  return formatters.getNames();
+}
+
+const warnedUnits = new Set<string>(); // Unknown names already reported
+
+// Label for a length given in model units
+export function formatLength(modelValue: number, style: DimensionStyle): string {
+  const formatter = formatters.get(style.units);
+  if (!formatter) {
+    if (!warnedUnits.has(style.units)) {
+      warnedUnits.add(style.units);
+      debugWarn(`Unknown unit format '${style.units}', falling back to meters`);
+    }
+    return formatters.get('m')!(modelValue * style.modelUnitScale, style);
+  }
+  return formatter(modelValue * style.modelUnitScale, style);
+}
+
+// Area units follow the length units: metric lengths give m², imperial ones ft²
+const IMPERIAL_UNITS = new Set<string>(['ft', 'in', 'architectural', 'engineering', 'fractional']);
+
+// Label for an area given in square model units
+export function formatArea(modelValue: number, style: DimensionStyle): string {
+  const squareMeters = modelValue * style.modelUnitScale * style.modelUnitScale;
+  const precision = style.precision ?? 2;
+  if (IMPERIAL_UNITS.has(style.units)) {
+    return formatDecimal(squareMeters / (METERS_PER_INCH * 12) ** 2, precision, style) + ' ft²';
+  }
+  return formatDecimal(squareMeters, precision, style) + ' m²';
+}
+
+export function formatAngle(radians: number, style: DimensionStyle): string {
+  return formatDecimal(THREE.MathUtils.radToDeg(radians), style.anglePrecision, style) + '°';
+}
+
+// Meters per unit for bare numbers typed in each built-in format (feet-and-inch formats take inches)
+const METERS_PER_UNIT: Record<string, number> = {
+  m: 1,
+  cm: 0.01,
+  mm: 0.001,
+  ft: METERS_PER_INCH * 12,
+  in: METERS_PER_INCH,
+  architectural: METERS_PER_INCH,
+  engineering: METERS_PER_INCH,
+  fractional: METERS_PER_INCH
+};
+
+const SUFFIX_METERS: [string, number][] = [['mm', 0.001], ['cm', 0.01], ['m', 1], ['ft', METERS_PER_INCH * 12], ['in', METERS_PER_INCH]];
+
+// "6", "6.5", "6 3/8", "6-3/8" or "3/8"
+function parseWholeAndFraction(text: string): number | null {
+  const match = /^(?:(\d+(?:\.\d*)?|\.\d+)(?:[\s-]+|$))?(?:(\d+)\/(\d+))?$/.exec(text.trim());
+  if (!match || (!match[1] && !match[2])) return null;
+  const whole = match[1] ? Number(match[1]) : 0;
+  if (!match[2]) return whole;
+  const denominator = Number(match[3]);
+  return denominator === 0 ? null : whole + Number(match[2]) / denominator;
+}
+
+// Typed length in model units, or null if it can't be read. Accepts a bare number in the style's
+// units (inches for the feet-and-inch formats), a number with a unit ("25cm", "3ft", "4in"), and
+// feet and inches such as 12'6", 12'-6 3/8" or 6 3/8". Custom unit formats read bare numbers as meters.
+export function parseLength(text: string, style: DimensionStyle): number | null {
+  let value = text.trim().toLowerCase();
+  const sign = value.startsWith('-') ? -1 : 1;
+  if (sign < 0) value = value.slice(1).trim();
+  if (!value) return null;
+
+  let meters: number | null = null;
+  const feetMark = value.indexOf("'");
+  if (feetMark >= 0) {
+    // Feet, then optional inches
+    const feet = feetMark > 0 ? parseWholeAndFraction(value.slice(0, feetMark)) : null;
+    const rest = value.slice(feetMark + 1).replace(/^[\s-]+/, '').replace(/("|in)$/, '').trim();
+    const inches = rest ? parseWholeAndFraction(rest) : 0;
+    if (feet !== null && inches !== null) meters = (feet * 12 + inches) * METERS_PER_INCH;
+  } else if (value.endsWith('"')) {
+    const inches = parseWholeAndFraction(value.slice(0, -1));
+    if (inches !== null) meters = inches * METERS_PER_INCH;
+  } else {
+    const suffix = SUFFIX_METERS.find(([name]) => value.endsWith(name));
+    const number = parseWholeAndFraction(suffix ? value.slice(0, -suffix[0].length) : value);
+    if (number !== null) meters = number * (suffix ? suffix[1] : METERS_PER_UNIT[style.units] ?? 1);
+  }
+
+  if (meters === null || !Number.isFinite(meters)) return null;
+  return (sign * meters) / style.modelUnitScale;
+}
+
+// Typed angle in degrees ("45", "-22.5", "30°") as radians, or null
+export function parseAngle(text: string): number | null {
+  const value = text.trim().replace(/°$/, '');
+  if (!/^-?(\d+(\.\d*)?|\.\d+)$/.test(value)) return null;
+  return THREE.MathUtils.degToRad(Number(value));
+}